@@ -0,0 +1,90 @@
+import { performance } from 'perf_hooks';
+import { Err, None, Ok, Option, Result, Some } from '../src';
+import * as legacy from './legacy';
+
+type Case = {
+  name: string;
+  current: (i: number) => unknown;
+  legacy: (i: number) => unknown;
+};
+
+const ITERATIONS = Number(process.env.ITERATIONS ?? 1_000_000);
+
+const cases: Case[] = [
+  {
+    name: 'create Some',
+    current: (i) => Some(i),
+    legacy: (i) => legacy.Some(i),
+  },
+  {
+    name: 'create Ok',
+    current: (i) => Ok(i),
+    legacy: (i) => legacy.Ok(i),
+  },
+  {
+    name: 'Option map/andThen chain',
+    current: (i) =>
+      (i % 4 === 0 ? None : (Some(i) as Option<number>))
+        .map((x) => x + 1)
+        .andThen((x) => (x % 3 === 0 ? None : Some(x * 2)))
+        .map((x) => x - 1)
+        .unwrapOr(0),
+    legacy: (i) =>
+      (i % 4 === 0 ? legacy.None : legacy.Some(i))
+        .map((x) => x + 1)
+        .andThen((x) => (x % 3 === 0 ? legacy.None : legacy.Some(x * 2)))
+        .map((x) => x - 1)
+        .unwrapOr(0),
+  },
+  {
+    name: 'Result map/andThen chain',
+    current: (i) =>
+      (i % 4 === 0 ? Err('e') : (Ok(i) as Result<number, string>))
+        .map((x) => x + 1)
+        .andThen((x) => (x % 3 === 0 ? Err('e') : Ok(x * 2)))
+        .map((x) => x - 1)
+        .unwrapOr(0),
+    legacy: (i) =>
+      (i % 4 === 0
+        ? (legacy.Err('e') as legacy.LegacyResult<number, string>)
+        : legacy.Ok(i)
+      )
+        .map((x) => x + 1)
+        .andThen((x) => (x % 3 === 0 ? legacy.Err('e') : legacy.Ok(x * 2)))
+        .map((x) => x - 1)
+        .unwrapOr(0),
+  },
+];
+
+const measure = (f: (i: number) => unknown): number => {
+  let sink: unknown;
+  // NOTE: Warm up so that both implementations are measured after optimization.
+  for (let i = 0; i < ITERATIONS / 10; i++) {
+    sink = f(i);
+  }
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) {
+    sink = f(i);
+  }
+  const elapsed = performance.now() - start;
+  if (sink === Symbol.for('never')) {
+    console.log(sink);
+  }
+  return (ITERATIONS / elapsed) * 1000;
+};
+
+const format = (opsPerSec: number): string =>
+  `${Math.round(opsPerSec).toLocaleString('en-US')} ops/s`;
+
+console.table(
+  cases.map(({ name, current, legacy }) => {
+    const proxy = measure(legacy);
+    const prototype = measure(current);
+    return {
+      case: name,
+      prototype: format(prototype),
+      proxy: format(proxy),
+      speedup: `${(prototype / proxy).toFixed(2)}x`,
+    };
+  }),
+);
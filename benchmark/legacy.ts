@@ -0,0 +1,109 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// NOTE: A copy of the Proxy-based `mixin` that values were created with before
+// the methods were moved onto the prototypes, kept here only to compare against.
+
+const mixin = <T extends object>(object: T, trait: object): T =>
+  new Proxy(object, {
+    get: (target, key) => (target as any)[key] ?? (trait as any)[key],
+  });
+
+export interface LegacyOption<T> {
+  readonly value?: T;
+  isSome(): boolean;
+  map<U>(f: (arg: T) => U): LegacyOption<U>;
+  andThen<U>(f: (arg: T) => LegacyOption<U>): LegacyOption<U>;
+  unwrapOr(def: T): T;
+}
+
+export interface LegacyResult<T, E> {
+  readonly value: T | E;
+  isOk(): boolean;
+  map<U>(op: (arg: T) => U): LegacyResult<U, E>;
+  andThen<U>(op: (arg: T) => LegacyResult<U, E>): LegacyResult<U, E>;
+  unwrapOr(def: T): T;
+}
+
+class SomeClass<T> {
+  constructor(readonly value: T) {}
+
+  isSome(): boolean {
+    return true;
+  }
+}
+
+class NoneClass {
+  isSome(): boolean {
+    return false;
+  }
+}
+
+class OptionImpl {
+  map(this: any, f: (arg: unknown) => unknown): LegacyOption<unknown> {
+    return this.isSome() ? Some(f(this.value)) : None;
+  }
+
+  andThen(
+    this: any,
+    f: (arg: unknown) => LegacyOption<unknown>,
+  ): LegacyOption<unknown> {
+    return this.isSome() ? f(this.value) : this;
+  }
+
+  unwrapOr(this: any, def: unknown): unknown {
+    return this.isSome() ? this.value : def;
+  }
+}
+
+class OkClass<T> {
+  constructor(readonly value: T) {}
+
+  isOk(): boolean {
+    return true;
+  }
+}
+
+class ErrClass<E> {
+  constructor(readonly value: E) {}
+
+  isOk(): boolean {
+    return false;
+  }
+}
+
+class ResultImpl {
+  map(
+    this: any,
+    op: (arg: unknown) => unknown,
+  ): LegacyResult<unknown, unknown> {
+    return this.isOk() ? Ok(op(this.value)) : this;
+  }
+
+  andThen(
+    this: any,
+    op: (arg: unknown) => LegacyResult<unknown, unknown>,
+  ): LegacyResult<unknown, unknown> {
+    return this.isOk() ? op(this.value) : this;
+  }
+
+  unwrapOr(this: any, def: unknown): unknown {
+    return this.isOk() ? this.value : def;
+  }
+}
+
+const optionImpl = new OptionImpl();
+const resultImpl = new ResultImpl();
+
+export const None: LegacyOption<never> = mixin(
+  new NoneClass(),
+  optionImpl,
+) as any;
+
+export const Some = <T>(value: T): LegacyOption<T> =>
+  mixin(new SomeClass(value), optionImpl) as any;
+
+export const Ok = <T>(value: T): LegacyResult<T, never> =>
+  mixin(new OkClass(value), resultImpl) as any;
+
+export const Err = <E>(value: E): LegacyResult<never, E> =>
+  mixin(new ErrClass(value), resultImpl) as any;
@@ -0,0 +1,25 @@
+/**
+ * A conversion from `T` into `U`, like the `From` trait in Rust.
+ *
+ * Any object with a `from` method is a conversion, so an error class can declare how it
+ * wraps lower-level errors with a static `from` method, without registering it anywhere.
+ *
+ * # Examples
+ *
+ * ```ts
+ * class AppError extends Error {
+ *   static from(e: SyntaxError | RangeError): AppError {
+ *     return new AppError(e.message, { cause: e });
+ *   }
+ * }
+ *
+ * const x: Result<number, SyntaxError> = Err(new SyntaxError('unexpected token'));
+ * const y: Result<number, AppError> = x.convertErr(AppError);
+ * assert.equal(y.isErr() && y.value.cause instanceof SyntaxError, true);
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/convert/trait.From.html)
+ */
+export interface From<T, U> {
+  from(value: T): U;
+}
@@ -0,0 +1,59 @@
+import { None, Option } from './option';
+
+/**
+ * A provider of the default value of `T`, like the `Default` trait in Rust.
+ *
+ * Any object with a `default` method is a provider, including classes with a
+ * static `default` method.
+ *
+ * # Examples
+ *
+ * ```ts
+ * class Config {
+ *   constructor(readonly retries: number) {}
+ *
+ *   static default(): Config {
+ *     return new Config(3);
+ *   }
+ * }
+ *
+ * const x: Option<Config> = None;
+ * assert.equal(x.unwrapOrDefault(Config).retries, 3);
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/default/trait.Default.html)
+ */
+export interface Default<T> {
+  default(): T;
+}
+
+/**
+ * The {@link Default} providers of built-in types.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assert.equal(None.unwrapOrDefault(Default.number), 0);
+ * assert.deepEqual(None.unwrapOrDefault(Default.array<string>()), []);
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/default/trait.Default.html#implementors)
+ */
+export const Default = {
+  /** `0` */
+  number: { default: (): number => 0 } as Default<number>,
+  /** `''` */
+  string: { default: (): string => '' } as Default<string>,
+  /** `false` */
+  boolean: { default: (): boolean => false } as Default<boolean>,
+  /** `0n` */
+  bigint: { default: (): bigint => BigInt(0) } as Default<bigint>,
+  /** A new empty array. */
+  array: <T>(): Default<T[]> => ({ default: () => [] }),
+  /** A new empty `Map`. */
+  map: <K, V>(): Default<Map<K, V>> => ({ default: () => new Map() }),
+  /** A new empty `Set`. */
+  set: <T>(): Default<Set<T>> => ({ default: () => new Set() }),
+  /** {@link None} */
+  option: <T>(): Default<Option<T>> => ({ default: () => None }),
+};
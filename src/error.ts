@@ -0,0 +1,165 @@
+/**
+ * The base class of errors discriminated by a `_tag` literal, to be used as {@link Err} values.
+ *
+ * The tag is also used as the `name` of the error, and `cause` can be given
+ * to chain the error that caused it (see {@link formatErrorChain}).
+ * Use {@link defineError} to define a subclass with typed fields.
+ *
+ * # Examples
+ *
+ * ```ts
+ * class Timeout extends TaggedError<'Timeout'> {
+ *   constructor(readonly ms: number, options?: ErrorOptions) {
+ *     super('Timeout', `timed out after ${ms}ms`, options);
+ *   }
+ * }
+ *
+ * const e = new Timeout(100, { cause: new Error('socket hang up') });
+ * assert.equal(e._tag, 'Timeout');
+ * assert.equal(e.name, 'Timeout');
+ * assert.equal(e.message, 'timed out after 100ms');
+ * ```
+ *
+ * This is not in Rust.
+ */
+export class TaggedError<Tag extends string> extends Error {
+  constructor(readonly _tag: Tag, message?: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = _tag;
+  }
+}
+
+/**
+ * The tags of the {@link TaggedError}s in `E`.
+ *
+ * @hidden
+ */
+export type TagOf<E> = E extends { readonly _tag: infer K } ? K : never;
+
+/**
+ * Returns `true` if `value` has the tag `tag`.
+ *
+ * @hidden
+ */
+export const hasTag = (value: unknown, tag: unknown): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as { _tag?: unknown })._tag === tag;
+
+const reservedFields = ['_tag', 'name', 'message', 'stack', 'cause'] as const;
+
+/**
+ * The properties of a {@link TaggedError} that cannot be fields of {@link defineError}.
+ */
+export type ReservedField = typeof reservedFields[number];
+
+// NOTE: Makes the return type of `message` a type error naming the reserved fields, if any.
+type MessageOf<Fields> = [keyof Fields & ReservedField] extends [never]
+  ? string
+  : `${keyof Fields &
+      ReservedField &
+      string} is reserved and cannot be a field`;
+
+/**
+ * The class returned by {@link defineError}.
+ */
+export interface TaggedErrorClass<Tag extends string, Fields extends object> {
+  new (
+    ...args: keyof Fields extends never
+      ? [fields?: Fields, options?: ErrorOptions]
+      : [fields: Fields, options?: ErrorOptions]
+  ): TaggedError<Tag> & Readonly<Fields>;
+  readonly prototype: TaggedError<Tag>;
+  /**
+   * The tag of the errors.
+   */
+  readonly tag: Tag;
+}
+
+/**
+ * Defines a {@link TaggedError} class with the tag `tag`, whose instances have `Fields`.
+ *
+ * The fields are given to the constructor as an object, along with the options of `Error`,
+ * and `message` builds the message of the error from them.
+ * The type of the fields is taken from the parameter of `message`. The {@link ReservedField}s
+ * such as `_tag` and `message` cannot be fields, and are ignored if given at runtime.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const NotFound = defineError('NotFound', (f: { id: number }) => `${f.id} not found`);
+ * type NotFound = InstanceType<typeof NotFound>;
+ *
+ * const Forbidden = defineError('Forbidden');
+ * type Forbidden = InstanceType<typeof Forbidden>;
+ *
+ * const find = (id: number): Result<string, NotFound | Forbidden> =>
+ *   id === 0 ? Err(new Forbidden()) : Err(new NotFound({ id }));
+ *
+ * const e = find(1);
+ * assert.equal(e.isErrAnd((e) => e._tag === 'NotFound' && e.id === 1), true);
+ * assert.equal(e.isErrAnd((e) => e instanceof NotFound && e.message === '1 not found'), true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export const defineError = <Tag extends string, Fields extends object = {}>(
+  tag: Tag,
+  message?: (fields: Fields) => MessageOf<Fields>,
+): TaggedErrorClass<Tag, Fields> => {
+  class Defined extends TaggedError<Tag> {
+    static readonly tag = tag;
+
+    constructor(fields: Fields = {} as Fields, options?: ErrorOptions) {
+      super(tag, message?.(fields) as string | undefined, options);
+      for (const [key, value] of Object.entries(fields)) {
+        if (!(reservedFields as readonly string[]).includes(key)) {
+          Object.defineProperty(this, key, {
+            value,
+            enumerable: true,
+            writable: true,
+            configurable: true,
+          });
+        }
+      }
+    }
+  }
+  Object.defineProperty(Defined, 'name', { value: tag });
+  return Defined as unknown as TaggedErrorClass<Tag, Fields>;
+};
+
+/**
+ * Formats an error and the chain of its `cause`s, one per line.
+ *
+ * Errors are formatted as `name: message`, and other values with `String`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const db = new Error('connection refused');
+ * const e = new TaggedError('NotFound', 'user 1 not found', { cause: db });
+ *
+ * assert.equal(
+ *   formatErrorChain(e),
+ *   'NotFound: user 1 not found\n  caused by: Error: connection refused',
+ * );
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const formatErrorChain = (error: unknown): string => {
+  const lines: string[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+    const line =
+      current instanceof Error
+        ? `${current.name}: ${current.message}`
+        : String(current);
+    lines.push(lines.length === 0 ? line : `  caused by: ${line}`);
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return lines.join('\n');
+};
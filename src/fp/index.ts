@@ -0,0 +1,182 @@
+/**
+ * Passes `value` through `fns` from left to right, and returns the last result.
+ *
+ * Used with the curried functions of `@schrosis/rus-ts/fp/option` and
+ * `@schrosis/rus-ts/fp/result`, it chains operations without methods.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { pipe } from '@schrosis/rus-ts/fp';
+ * import * as O from '@schrosis/rus-ts/fp/option';
+ *
+ * const x = pipe(
+ *   Option.fromNullable(process.env.PORT),
+ *   O.map(Number),
+ *   O.unwrapOr(8080),
+ * );
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function pipe<A>(a: A): A;
+export function pipe<A, B>(a: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): D;
+export function pipe<A, B, C, D, E>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): E;
+export function pipe<A, B, C, D, E, F>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+): J;
+export function pipe(
+  value: unknown,
+  ...fns: ((value: unknown) => unknown)[]
+): unknown {
+  return fns.reduce((acc, fn) => fn(acc), value);
+}
+
+/**
+ * Composes `fns` from left to right into a function, which passes its arguments to the first one.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { flow } from '@schrosis/rus-ts/fp';
+ * import * as R from '@schrosis/rus-ts/fp/result';
+ *
+ * const port = flow(
+ *   (s: string) => Result.tryCatch(() => JSON.parse(s) as { port: number }),
+ *   R.map((config) => config.port),
+ *   R.unwrapOr(8080),
+ * );
+ * assert.equal(port('{"port":3000}'), 3000);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function flow<P extends unknown[], B>(
+  ab: (...args: P) => B,
+): (...args: P) => B;
+export function flow<P extends unknown[], B, C>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+): (...args: P) => C;
+export function flow<P extends unknown[], B, C, D>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): (...args: P) => D;
+export function flow<P extends unknown[], B, C, D, E>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): (...args: P) => E;
+export function flow<P extends unknown[], B, C, D, E, F>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): (...args: P) => F;
+export function flow<P extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): (...args: P) => G;
+export function flow<P extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): (...args: P) => H;
+export function flow<P extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+): (...args: P) => I;
+export function flow<P extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+): (...args: P) => J;
+export function flow(
+  first: (...args: unknown[]) => unknown,
+  ...fns: ((value: unknown) => unknown)[]
+): (...args: unknown[]) => unknown {
+  return (...args) => fns.reduce((acc, fn) => fn(acc), first(...args));
+}
@@ -0,0 +1,271 @@
+/**
+ * Curried, data-last versions of the methods of {@link Option}, for {@link pipe} and {@link flow}.
+ *
+ * Each function takes the arguments of the method and returns a function of the option,
+ * except for the methods without arguments, which take the option directly.
+ * The functions do not call the methods, so bundlers drop the ones that are not imported.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { pipe } from '@schrosis/rus-ts/fp';
+ * import * as O from '@schrosis/rus-ts/fp/option';
+ *
+ * const x = pipe(
+ *   Some(2),
+ *   O.map((n) => n * 2),
+ *   O.filter((n) => n > 3),
+ *   O.unwrapOr(0),
+ * );
+ * assert.equal(x, 4);
+ * ```
+ *
+ * @module
+ */
+import { AsyncOption, None, Option, Some } from '../option';
+import { Err, Ok, Result } from '../result';
+import * as guard from '../guard';
+import { UnwrapError } from '../unwrap';
+import {
+  defaultCompare,
+  defaultEquals,
+  defaultHash,
+  hashCombine,
+} from '../util';
+import type { Default } from '../default';
+import type { OptionJSON } from '../json';
+
+/** @see {@link <internal>!OptionImpl.isSome} */
+export const isSome = <T>(self: Option<T>): self is Some<T> =>
+  guard.isSome(self);
+
+/** @see {@link <internal>!OptionImpl.isNone} */
+export const isNone = <T>(self: Option<T>): self is None => guard.isNone(self);
+
+/** @see {@link <internal>!OptionImpl.isSomeAnd} */
+export const isSomeAnd =
+  <T>(f: (arg: T) => boolean) =>
+  (self: Option<T>): boolean =>
+    guard.isSome(self) && f(self.value);
+
+/** @see {@link <internal>!OptionImpl.isNoneOr} */
+export const isNoneOr =
+  <T>(f: (arg: T) => boolean) =>
+  (self: Option<T>): boolean =>
+    !guard.isSome(self) || f(self.value);
+
+/** @see {@link <internal>!OptionImpl.contains} */
+export const contains =
+  <T>(x: T, eq: (a: T, b: T) => boolean = defaultEquals) =>
+  (self: Option<T>): boolean =>
+    guard.isSome(self) && eq(self.value, x);
+
+/** @see {@link <internal>!OptionImpl.expect} */
+export const expect =
+  (message: string) =>
+  <T>(self: Option<T>): T => {
+    if (!guard.isSome(self)) {
+      throw new UnwrapError(message, 'None');
+    }
+    return self.value;
+  };
+
+/** @see {@link <internal>!OptionImpl.unwrapOr} */
+export const unwrapOr =
+  <T>(def: T) =>
+  (self: Option<T>): T =>
+    guard.isSome(self) ? self.value : def;
+
+/** @see {@link <internal>!OptionImpl.unwrapOrElse} */
+export const unwrapOrElse =
+  <T>(f: () => T) =>
+  (self: Option<T>): T =>
+    guard.isSome(self) ? self.value : f();
+
+/** @see {@link <internal>!OptionImpl.unwrapOrDefault} */
+export const unwrapOrDefault =
+  <T>(provider: Default<T>) =>
+  (self: Option<T>): T =>
+    guard.isSome(self) ? self.value : provider.default();
+
+/** @see {@link <internal>!OptionImpl.map} */
+export const map =
+  <T, U>(f: (arg: T) => U) =>
+  (self: Option<T>): Option<U> =>
+    guard.isSome(self) ? Some(f(self.value)) : None;
+
+/** @see {@link <internal>!OptionImpl.mapOr} */
+export const mapOr =
+  <T, U>(def: U, f: (arg: T) => U) =>
+  (self: Option<T>): U =>
+    guard.isSome(self) ? f(self.value) : def;
+
+/** @see {@link <internal>!OptionImpl.mapOrElse} */
+export const mapOrElse =
+  <T, U>(def: () => U, f: (arg: T) => U) =>
+  (self: Option<T>): U =>
+    guard.isSome(self) ? f(self.value) : def();
+
+/** @see {@link <internal>!OptionImpl.inspect} */
+export const inspect =
+  <T>(f: (arg: T) => unknown) =>
+  (self: Option<T>): Option<T> => {
+    if (guard.isSome(self)) {
+      f(self.value);
+    }
+    return self;
+  };
+
+/** @see {@link <internal>!OptionImpl.okOr} */
+export const okOr =
+  <E>(err: E) =>
+  <T>(self: Option<T>): Result<T, E> =>
+    guard.isSome(self) ? Ok(self.value) : Err(err);
+
+/** @see {@link <internal>!OptionImpl.okOrElse} */
+export const okOrElse =
+  <E>(err: () => E) =>
+  <T>(self: Option<T>): Result<T, E> =>
+    guard.isSome(self) ? Ok(self.value) : Err(err());
+
+/** @see {@link <internal>!OptionImpl.and} */
+export const and =
+  <U>(optb: Option<U>) =>
+  <T>(self: Option<T>): Option<U> =>
+    guard.isSome(self) ? optb : None;
+
+/** @see {@link <internal>!OptionImpl.andThen} */
+export const andThen =
+  <T, U>(f: (arg: T) => Option<U>) =>
+  (self: Option<T>): Option<U> =>
+    guard.isSome(self) ? f(self.value) : None;
+
+/** @see {@link <internal>!OptionImpl.filter} */
+export const filter =
+  <T>(predicate: (arg: T) => boolean) =>
+  (self: Option<T>): Option<T> =>
+    guard.isSome(self) && predicate(self.value) ? self : None;
+
+/** @see {@link <internal>!OptionImpl.or} */
+export const or =
+  <T>(optb: Option<T>) =>
+  (self: Option<T>): Option<T> =>
+    guard.isSome(self) ? self : optb;
+
+/** @see {@link <internal>!OptionImpl.orElse} */
+export const orElse =
+  <T>(f: () => Option<T>) =>
+  (self: Option<T>): Option<T> =>
+    guard.isSome(self) ? self : f();
+
+/** @see {@link <internal>!OptionImpl.orDefault} */
+export const orDefault =
+  <T>(provider: Default<T>) =>
+  (self: Option<T>): Option<T> =>
+    guard.isSome(self) ? self : Some(provider.default());
+
+/** @see {@link <internal>!OptionImpl.xor} */
+export const xor =
+  <T>(optb: Option<T>) =>
+  (self: Option<T>): Option<T> => {
+    if (guard.isSome(self) && !guard.isSome(optb)) {
+      return self;
+    }
+    if (!guard.isSome(self) && guard.isSome(optb)) {
+      return optb;
+    }
+    return None;
+  };
+
+/** @see {@link <internal>!OptionImpl.zip} */
+export const zip =
+  <U>(other: Option<U>) =>
+  <T>(self: Option<T>): Option<[T, U]> =>
+    guard.isSome(self) && guard.isSome(other)
+      ? Some([self.value, other.value])
+      : None;
+
+/** @see {@link <internal>!OptionImpl.zipWith} */
+export const zipWith =
+  <T, U, R>(other: Option<U>, f: (a: T, b: U) => R) =>
+  (self: Option<T>): Option<R> =>
+    guard.isSome(self) && guard.isSome(other)
+      ? Some(f(self.value, other.value))
+      : None;
+
+/** @see {@link <internal>!OptionImpl.unzip} */
+export const unzip = <T, U>(self: Option<[T, U]>): [Option<T>, Option<U>] =>
+  guard.isSome(self)
+    ? [Some(self.value[0]), Some(self.value[1])]
+    : [None, None];
+
+/** @see {@link <internal>!OptionImpl.transpose} */
+export const transpose = <T, E>(
+  self: Option<Result<T, E>>,
+): Result<Option<T>, E> => {
+  if (!guard.isSome(self)) {
+    return Ok(None);
+  }
+  return guard.isOk(self.value)
+    ? Ok(Some(self.value.value))
+    : Err(self.value.value);
+};
+
+/** @see {@link <internal>!OptionImpl.flatten} */
+export const flatten = <T>(self: Option<Option<T>>): Option<T> =>
+  guard.isSome(self) ? self.value : None;
+
+/** @see {@link <internal>!OptionImpl.equals} */
+export const equals =
+  <T>(other: Option<T>, eq: (a: T, b: T) => boolean = defaultEquals) =>
+  (self: Option<T>): boolean => {
+    if (guard.isSome(self)) {
+      return guard.isSome(other) && eq(self.value, other.value);
+    }
+    return !guard.isSome(other);
+  };
+
+/** @see {@link <internal>!OptionImpl.compare} */
+export const compare =
+  <T>(other: Option<T>, cmp: (a: T, b: T) => number = defaultCompare) =>
+  (self: Option<T>): number => {
+    if (guard.isSome(self)) {
+      return guard.isSome(other) ? cmp(self.value, other.value) : 1;
+    }
+    return guard.isSome(other) ? -1 : 0;
+  };
+
+/** @see {@link <internal>!OptionImpl.hash} */
+export const hash =
+  <T>(hashFn: (value: T) => number = defaultHash) =>
+  (self: Option<T>): number =>
+    guard.isSome(self) ? hashCombine(1, hashFn(self.value)) : hashCombine(0);
+
+/** @see {@link <internal>!OptionImpl.iter} */
+export const iter = function* <T>(self: Option<T>): IterableIterator<T> {
+  if (guard.isSome(self)) {
+    yield self.value;
+  }
+};
+
+/** @see {@link <internal>!OptionImpl.toNullable} */
+export const toNullable = <T>(self: Option<T>): T | null =>
+  guard.isSome(self) ? self.value : null;
+
+/** @see {@link <internal>!OptionImpl.toUndefinable} */
+export const toUndefinable = <T>(self: Option<T>): T | undefined =>
+  guard.isSome(self) ? self.value : undefined;
+
+/** @see {@link <internal>!OptionImpl.toJSON} */
+export const toJSON = <T>(self: Option<T>): OptionJSON<T> =>
+  guard.isSome(self) ? { $type: 'Some', value: self.value } : { $type: 'None' };
+
+/** @see {@link <internal>!OptionImpl.match} */
+export const match =
+  <T, A, B>(arms: { Some: (value: T) => A; None: () => B }) =>
+  (self: Option<T>): A | B =>
+    guard.isSome(self) ? arms.Some(self.value) : arms.None();
+
+/** @see {@link <internal>!OptionImpl.toAsync} */
+export const toAsync = <T>(self: Option<T>): AsyncOption<T> =>
+  new AsyncOption(self);
@@ -0,0 +1,281 @@
+/**
+ * Curried, data-last versions of the methods of {@link Result}, for {@link pipe} and {@link flow}.
+ *
+ * Each function takes the arguments of the method and returns a function of the result,
+ * except for the methods without arguments, which take the result directly.
+ * The functions do not call the methods, so bundlers drop the ones that are not imported.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { flow } from '@schrosis/rus-ts/fp';
+ * import * as R from '@schrosis/rus-ts/fp/result';
+ *
+ * const parse = flow(
+ *   (s: string) => (Number.isNaN(Number(s)) ? Err('NaN') : Ok(Number(s))),
+ *   R.andThen((n: number) => (n > 0 ? Ok(n) : Err(n))),
+ *   R.mapErr(String),
+ * );
+ * assert.deepEqual(parse('2'), Ok(2));
+ * assert.deepEqual(parse('-1'), Err('-1'));
+ * ```
+ *
+ * @module
+ */
+import { AsyncResult, Err, Ok, Result } from '../result';
+import { None, Option, Some } from '../option';
+import * as guard from '../guard';
+import { hasTag } from '../error';
+import {
+  defaultCompare,
+  defaultEquals,
+  defaultHash,
+  hashCombine,
+} from '../util';
+import type { Default } from '../default';
+import type { From } from '../convert';
+import type { ResultJSON } from '../json';
+
+/** @see {@link <internal>!ResultImpl.isOk} */
+export const isOk = <T, E>(self: Result<T, E>): self is Ok<T> =>
+  guard.isOk(self);
+
+/** @see {@link <internal>!ResultImpl.isErr} */
+export const isErr = <T, E>(self: Result<T, E>): self is Err<E> =>
+  guard.isErr(self);
+
+/** @see {@link <internal>!ResultImpl.isOkAnd} */
+export const isOkAnd =
+  <T>(f: (arg: T) => boolean) =>
+  <E>(self: Result<T, E>): boolean =>
+    guard.isOk(self) && f(self.value);
+
+/** @see {@link <internal>!ResultImpl.isErrAnd} */
+export const isErrAnd =
+  <E>(f: (arg: E) => boolean) =>
+  <T>(self: Result<T, E>): boolean =>
+    !guard.isOk(self) && f(self.value);
+
+/** @see {@link <internal>!ResultImpl.contains} */
+export const contains =
+  <T>(x: T, eq: (a: T, b: T) => boolean = defaultEquals) =>
+  <E>(self: Result<T, E>): boolean =>
+    guard.isOk(self) && eq(self.value, x);
+
+/** @see {@link <internal>!ResultImpl.containsErr} */
+export const containsErr =
+  <E>(e: E, eq: (a: E, b: E) => boolean = defaultEquals) =>
+  <T>(self: Result<T, E>): boolean =>
+    !guard.isOk(self) && eq(self.value, e);
+
+/** @see {@link <internal>!ResultImpl.ok} */
+export const ok = <T, E>(self: Result<T, E>): Option<T> =>
+  guard.isOk(self) ? Some(self.value) : None;
+
+/** @see {@link <internal>!ResultImpl.err} */
+export const err = <T, E>(self: Result<T, E>): Option<E> =>
+  guard.isOk(self) ? None : Some(self.value);
+
+/** @see {@link <internal>!ResultImpl.map} */
+export const map =
+  <T, U>(op: (arg: T) => U) =>
+  <E>(self: Result<T, E>): Result<U, E> =>
+    guard.isOk(self) ? Ok(op(self.value)) : self;
+
+/** @see {@link <internal>!ResultImpl.mapOr} */
+export const mapOr =
+  <T, U>(def: U, f: (arg: T) => U) =>
+  <E>(self: Result<T, E>): U =>
+    guard.isOk(self) ? f(self.value) : def;
+
+/** @see {@link <internal>!ResultImpl.mapOrElse} */
+export const mapOrElse =
+  <T, E, U>(def: (arg: E) => U, f: (arg: T) => U) =>
+  (self: Result<T, E>): U =>
+    guard.isOk(self) ? f(self.value) : def(self.value);
+
+/** @see {@link <internal>!ResultImpl.mapErr} */
+export const mapErr =
+  <E, F>(op: (arg: E) => F) =>
+  <T>(self: Result<T, E>): Result<T, F> =>
+    guard.isOk(self) ? self : Err(op(self.value));
+
+/** @see {@link <internal>!ResultImpl.inspect} */
+export const inspect =
+  <T>(f: (arg: T) => unknown) =>
+  <E>(self: Result<T, E>): Result<T, E> => {
+    if (guard.isOk(self)) {
+      f(self.value);
+    }
+    return self;
+  };
+
+/** @see {@link <internal>!ResultImpl.inspectErr} */
+export const inspectErr =
+  <E>(f: (arg: E) => unknown) =>
+  <T>(self: Result<T, E>): Result<T, E> => {
+    if (!guard.isOk(self)) {
+      f(self.value);
+    }
+    return self;
+  };
+
+/** @see {@link <internal>!ResultImpl.convertErr} */
+export const convertErr =
+  <E, F>(target: From<E, F>) =>
+  <T>(self: Result<T, E>): Result<T, F> =>
+    guard.isOk(self) ? self : Err(target.from(self.value));
+
+/** @see {@link <internal>!ResultImpl.and} */
+export const and =
+  <U, E>(res: Result<U, E>) =>
+  <T>(self: Result<T, E>): Result<U, E> =>
+    guard.isOk(self) ? res : self;
+
+/** @see {@link <internal>!ResultImpl.andThen} */
+export const andThen =
+  <T, U, F = never>(op: (arg: T) => Result<U, F>) =>
+  <E>(self: Result<T, E>): Result<U, E | F> =>
+    guard.isOk(self) ? op(self.value) : self;
+
+/** @see {@link <internal>!ResultImpl.or} */
+export const or =
+  <T, F>(res: Result<T, F>) =>
+  <E>(self: Result<T, E>): Result<T, F> =>
+    guard.isOk(self) ? self : res;
+
+/** @see {@link <internal>!ResultImpl.orElse} */
+export const orElse =
+  <T, E, F>(op: (arg: E) => Result<T, F>) =>
+  (self: Result<T, E>): Result<T, F> =>
+    guard.isOk(self) ? self : op(self.value);
+
+/**
+ * The parameter of `handler` needs to be annotated, as with {@link Result.catchTag}.
+ *
+ * @see {@link <internal>!ResultImpl.catchTag}
+ */
+export const catchTag =
+  <K extends string, H extends { readonly _tag: K }, U, F = never>(
+    tag: K,
+    handler: (error: H) => Result<U, F>,
+  ) =>
+  <T, E>(
+    self: Result<T, E>,
+  ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> =>
+    !guard.isOk(self) && hasTag(self.value, tag)
+      ? handler(self.value as unknown as H)
+      : (self as Result<T, Exclude<E, { readonly _tag: K }>>);
+
+/** @see {@link <internal>!ResultImpl.unwrapOr} */
+export const unwrapOr =
+  <T>(def: T) =>
+  <E>(self: Result<T, E>): T =>
+    guard.isOk(self) ? self.value : def;
+
+/** @see {@link <internal>!ResultImpl.unwrapOrElse} */
+export const unwrapOrElse =
+  <T, E>(op: (arg: E) => T) =>
+  (self: Result<T, E>): T =>
+    guard.isOk(self) ? self.value : op(self.value);
+
+/** @see {@link <internal>!ResultImpl.unwrapOrDefault} */
+export const unwrapOrDefault =
+  <T>(provider: Default<T>) =>
+  <E>(self: Result<T, E>): T =>
+    guard.isOk(self) ? self.value : provider.default();
+
+/** @see {@link <internal>!ResultImpl.intoOk} */
+export const intoOk = <T>(self: Result<T, never>): T => self.value;
+
+/** @see {@link <internal>!ResultImpl.intoErr} */
+export const intoErr = <E>(self: Result<never, E>): E => self.value;
+
+/** @see {@link <internal>!ResultImpl.transpose} */
+export const transpose = <T, E>(
+  self: Result<Option<T>, E>,
+): Option<Result<T, E>> => {
+  if (!guard.isOk(self)) {
+    return Some(Err(self.value));
+  }
+  return guard.isSome(self.value) ? Some(Ok(self.value.value)) : None;
+};
+
+/** @see {@link <internal>!ResultImpl.flatten} */
+export const flatten = <T, E, F>(
+  self: Result<Result<T, F>, E>,
+): Result<T, E | F> => (guard.isOk(self) ? self.value : self);
+
+/** @see {@link <internal>!ResultImpl.equals} */
+export const equals =
+  <T, E>(
+    other: Result<T, E>,
+    eq: (a: T, b: T) => boolean = defaultEquals,
+    eqErr: (a: E, b: E) => boolean = defaultEquals,
+  ) =>
+  (self: Result<T, E>): boolean => {
+    if (guard.isOk(self)) {
+      return guard.isOk(other) && eq(self.value, other.value);
+    }
+    return !guard.isOk(other) && eqErr(self.value, other.value);
+  };
+
+/** @see {@link <internal>!ResultImpl.compare} */
+export const compare =
+  <T, E>(
+    other: Result<T, E>,
+    cmp: (a: T, b: T) => number = defaultCompare,
+    cmpErr: (a: E, b: E) => number = defaultCompare,
+  ) =>
+  (self: Result<T, E>): number => {
+    if (guard.isOk(self)) {
+      return guard.isOk(other) ? cmp(self.value, other.value) : -1;
+    }
+    return guard.isOk(other) ? 1 : cmpErr(self.value, other.value);
+  };
+
+/** @see {@link <internal>!ResultImpl.hash} */
+export const hash =
+  <T, E>(
+    hashFn: (value: T) => number = defaultHash,
+    hashErr: (value: E) => number = defaultHash,
+  ) =>
+  (self: Result<T, E>): number =>
+    guard.isOk(self)
+      ? hashCombine(0, hashFn(self.value))
+      : hashCombine(1, hashErr(self.value));
+
+/** @see {@link <internal>!ResultImpl.iter} */
+export const iter = function* <T, E>(self: Result<T, E>): IterableIterator<T> {
+  if (guard.isOk(self)) {
+    yield self.value;
+  }
+};
+
+/** @see {@link <internal>!ResultImpl.toJSON} */
+export const toJSON = <T, E>(self: Result<T, E>): ResultJSON<T, E> =>
+  guard.isOk(self)
+    ? { $type: 'Ok', value: self.value }
+    : { $type: 'Err', value: self.value };
+
+/** @see {@link <internal>!ResultImpl.match} */
+export const match =
+  <T, E, A, B>(arms: { Ok: (value: T) => A; Err: (error: E) => B }) =>
+  (self: Result<T, E>): A | B =>
+    guard.isOk(self) ? arms.Ok(self.value) : arms.Err(self.value);
+
+/** @see {@link <internal>!ResultImpl.toAsync} */
+export const toAsync = <T, E>(self: Result<T, E>): AsyncResult<T, E> =>
+  new AsyncResult(self);
+
+/** @see {@link <internal>!ResultImpl.toPromise} */
+export const toPromise =
+  <E>(mapErr?: (error: E) => unknown) =>
+  <T>(self: Result<T, E>): Promise<T> =>
+    new Promise((resolve, reject) => {
+      if (guard.isOk(self)) {
+        resolve(self.value);
+      } else {
+        reject(mapErr ? mapErr(self.value) : self.value);
+      }
+    });
@@ -0,0 +1,134 @@
+import type { None, Option, Some } from './option';
+import type { Err, Ok, Result } from './result';
+import { variant } from './util';
+
+const variantOf = (value: unknown): unknown =>
+  typeof value === 'object' && value !== null
+    ? (value as { [variant]?: unknown })[variant]
+    : undefined;
+
+/**
+ * Returns `true` if `value` is an {@link Option}.
+ *
+ * Unlike the methods of {@link Option}, this can be called on any value, including values
+ * created by another copy of this package or in another realm.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: unknown = Some(1);
+ * if (isOption(x)) {
+ *   assert.equal(x.isSome(), true);
+ * }
+ *
+ * assert.equal(isOption(None), true);
+ * assert.equal(isOption(Ok(1)), false);
+ * assert.equal(isOption({ value: 1 }), false);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const isOption = (value: unknown): value is Option<unknown> => {
+  const name = variantOf(value);
+  return name === 'Some' || name === 'None';
+};
+
+/**
+ * Returns `true` if `value` is a {@link Result}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assert.equal(isResult(Ok(1)), true);
+ * assert.equal(isResult(Err('e')), true);
+ * assert.equal(isResult(Some(1)), false);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const isResult = (value: unknown): value is Result<unknown, unknown> => {
+  const name = variantOf(value);
+  return name === 'Ok' || name === 'Err';
+};
+
+/**
+ * Returns `true` if `value` is a {@link Some}.
+ *
+ * `x instanceof Some` is equivalent.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Option<number> = Some(1);
+ * if (isSome(x)) {
+ *   assert.equal(x.value, 1);
+ * }
+ *
+ * assert.equal(isSome(None), false);
+ * assert.equal(Some(1) instanceof Some, true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const isSome = (value: unknown): value is Some<unknown> =>
+  variantOf(value) === 'Some';
+
+/**
+ * Returns `true` if `value` is {@link None}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assert.equal(isNone(None), true);
+ * assert.equal(isNone(Some(1)), false);
+ * assert.equal(isNone(undefined), false);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const isNone = (value: unknown): value is None =>
+  variantOf(value) === 'None';
+
+/**
+ * Returns `true` if `value` is an {@link Ok}.
+ *
+ * `x instanceof Ok` is equivalent.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Result<number, string> = Ok(1);
+ * if (isOk(x)) {
+ *   assert.equal(x.value, 1);
+ * }
+ *
+ * assert.equal(isOk(Err('e')), false);
+ * assert.equal(Ok(1) instanceof Ok, true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const isOk = (value: unknown): value is Ok<unknown> =>
+  variantOf(value) === 'Ok';
+
+/**
+ * Returns `true` if `value` is an {@link Err}.
+ *
+ * `x instanceof Err` is equivalent.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Result<number, string> = Err('e');
+ * if (isErr(x)) {
+ *   assert.equal(x.value, 'e');
+ * }
+ *
+ * assert.equal(isErr(Ok(1)), false);
+ * assert.equal(Err('e') instanceof Err, true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const isErr = (value: unknown): value is Err<unknown> =>
+  variantOf(value) === 'Err';
@@ -1,2 +1,28 @@
-export { None, Option, Some } from './option';
-export { Err, Ok, Result } from './result';
+export { AsyncOption, None, Option, OptionCell, Some } from './option';
+export type {
+  FromProps,
+  NoneProp,
+  NullablePaths,
+  PathValue,
+  ToProps,
+} from './option';
+export { Default } from './default';
+export type { From } from './convert';
+export { defineError, formatErrorChain, TaggedError } from './error';
+export type { ReservedField, TaggedErrorClass } from './error';
+export { AsyncResult, Err, Ok, Result } from './result';
+export { isErr, isNone, isOk, isOption, isResult, isSome } from './guard';
+export { match } from './match';
+export type {
+  ErrType,
+  OkType,
+  OptionalKeys,
+  OptionalToOption,
+  RequiredKeys,
+  ResultifyFn,
+  SomeType,
+  UnwrapResult,
+} from './types';
+export { Semigroup } from './semigroup';
+export { jsonReplacer, jsonReviver } from './json';
+export type { JSONFormat, OptionJSON, ResultJSON } from './json';
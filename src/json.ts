@@ -0,0 +1,124 @@
+import { isErr, isNone, isOk, isOption, isResult, isSome } from './guard';
+import { Option } from './option';
+import { Result } from './result';
+import { hasKeys, hasMethod, isRecord } from './util';
+
+/**
+ * The JSON format of {@link Option} and {@link Result}.
+ *
+ * - `'tagged'` (default) is the format of `toJSON`:
+ *   `{ "$type": "Some", "value": v }`, `{ "$type": "None" }`,
+ *   `{ "$type": "Ok", "value": v }` and `{ "$type": "Err", "value": e }`.
+ *   A missing `"value"` is read as `undefined`, since `JSON.stringify` drops it.
+ * - `'serde'` is the default format of [serde](https://serde.rs/) in Rust:
+ *   `v` or `null` for options, and the externally tagged `{ "Ok": v }` and `{ "Err": e }` for results.
+ */
+export type JSONFormat = 'tagged' | 'serde';
+
+/**
+ * The `'tagged'` JSON representation of `Option<T>`.
+ */
+export type OptionJSON<T> = { $type: 'Some'; value: T } | { $type: 'None' };
+
+/**
+ * The `'tagged'` JSON representation of `Result<T, E>`.
+ */
+export type ResultJSON<T, E> =
+  | { $type: 'Ok'; value: T }
+  | { $type: 'Err'; value: E };
+
+const toSerde = (value: unknown, key: string): unknown => {
+  if (isSome(value)) {
+    return toSerde(value.value, key);
+  }
+  if (isNone(value)) {
+    return null;
+  }
+  if (isOk(value)) {
+    return { Ok: value.value };
+  }
+  if (isErr(value)) {
+    return { Err: value.value };
+  }
+  // NOTE: `JSON.stringify` does not call `toJSON` of a value returned by a replacer.
+  return hasMethod(value, 'toJSON') ? value.toJSON(key) : value;
+};
+
+/**
+ * Returns a replacer for `JSON.stringify` that serializes {@link Option}s and
+ * {@link Result}s in the given format.
+ *
+ * The `'tagged'` format does not need a replacer, since it is the format of `toJSON`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const json = JSON.stringify(
+ *   { a: Ok(Some(1)), b: Err('e') },
+ *   jsonReplacer({ format: 'serde' }),
+ * );
+ * assert.equal(json, '{"a":{"Ok":1},"b":{"Err":"e"}}');
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const jsonReplacer = ({
+  format = 'tagged',
+}: { format?: JSONFormat } = {}) =>
+  function (this: unknown, key: string, value: unknown): unknown {
+    // NOTE: `value` has already been converted by `toJSON`, so look up the original.
+    const original = (this as Record<string, unknown>)[key];
+    return format === 'serde' && (isOption(original) || isResult(original))
+      ? toSerde(original, key)
+      : value;
+  };
+
+const isTagged = (value: unknown, format: JSONFormat): boolean => {
+  if (!isRecord(value)) {
+    return false;
+  }
+  return format === 'serde'
+    ? hasKeys(value, 'Ok') || hasKeys(value, 'Err')
+    : typeof value.$type === 'string';
+};
+
+/**
+ * Returns a reviver for `JSON.parse` that rebuilds {@link Option}s and {@link Result}s
+ * serialized in the given format, including nested ones.
+ *
+ * Since `'serde'` serializes options as plain values, only results are rebuilt in that format.
+ * Use {@link Option.fromJSON} to rebuild them.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const json = JSON.stringify({ a: Some(Ok(1)), b: None });
+ * assert.deepEqual(JSON.parse(json, jsonReviver()), { a: Some(Ok(1)), b: None });
+ *
+ * const serde = '{"a":{"Ok":1},"b":{"Err":"e"}}';
+ * assert.deepEqual(
+ *   JSON.parse(serde, jsonReviver({ format: 'serde' })),
+ *   { a: Ok(1), b: Err('e') },
+ * );
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const jsonReviver =
+  ({ format = 'tagged' }: { format?: JSONFormat } = {}) =>
+  (_key: string, value: unknown): unknown => {
+    if (!isTagged(value, format)) {
+      return value;
+    }
+    const res = Result.fromJSON(value, { format });
+    if (res.isOk()) {
+      return res.value;
+    }
+    if (format === 'tagged') {
+      const opt = Option.fromJSON(value, { format });
+      if (opt.isOk()) {
+        return opt.value;
+      }
+    }
+    return value;
+  };
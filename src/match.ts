@@ -0,0 +1,146 @@
+import { Option } from './option';
+import { Result } from './result';
+
+type OptionCases<T> = { Some: T; None: undefined };
+
+type ResultCases<T, E> = { Ok: T; Err: E };
+
+/**
+ * A pattern matcher created by {@link match}.
+ *
+ * Arms are tried in the order they are added, and the first one that matches wins.
+ * `Cases` maps each variant to the type of its contained value,
+ * `R` is the union of the arm return types and
+ * `Remaining` are the variants not yet covered by an unguarded arm.
+ */
+export class Matcher<
+  Cases,
+  R = never,
+  Remaining extends keyof Cases = keyof Cases,
+> {
+  private declare readonly remaining: Remaining;
+
+  /**
+   * @hidden
+   */
+  constructor(
+    private readonly variant: keyof Cases,
+    private readonly value: unknown,
+    private readonly matched?: { output: R },
+  ) {}
+
+  /**
+   * Adds an arm that is taken if the value is `variant`.
+   */
+  with<K extends Remaining, U>(
+    variant: K,
+    f: (value: Cases[K]) => U,
+  ): Matcher<Cases, R | U, Exclude<Remaining, K>> {
+    return this.arm(variant, () => true, f);
+  }
+
+  /**
+   * Adds an arm that is taken if the value is `variant` and `guard` returns `true`,
+   * like `Some(x) if guard(x) => f(x)` in Rust.
+   *
+   * A guarded arm does not cover `variant`, so an unguarded arm for it is still required.
+   */
+  when<K extends Remaining, V extends Cases[K], U>(
+    variant: K,
+    guard: (value: Cases[K]) => value is V,
+    f: (value: V) => U,
+  ): Matcher<Cases, R | U, Remaining>;
+  when<K extends Remaining, U>(
+    variant: K,
+    guard: (value: Cases[K]) => boolean,
+    f: (value: Cases[K]) => U,
+  ): Matcher<Cases, R | U, Remaining>;
+  when<K extends Remaining, U>(
+    variant: K,
+    guard: (value: Cases[K]) => boolean,
+    f: (value: Cases[K]) => U,
+  ): Matcher<Cases, R | U, Remaining> {
+    return this.arm(variant, guard, f);
+  }
+
+  /**
+   * Returns the output of the matched arm.
+   *
+   * This can only be called once every variant is covered by an unguarded arm.
+   */
+  exhaustive(this: Matcher<Cases, R, never>): R {
+    // NOTE: Every variant is covered, so some arm has matched.
+    return (this.matched as { output: R }).output;
+  }
+
+  /**
+   * Returns the output of the matched arm, or the result of `f` if no arm has matched.
+   */
+  otherwise<U>(f: () => U): R | U {
+    return this.matched ? this.matched.output : f();
+  }
+
+  private arm<U, Rest extends keyof Cases>(
+    variant: keyof Cases,
+    guard: (value: never) => boolean,
+    f: (value: never) => U,
+  ): Matcher<Cases, R | U, Rest> {
+    if (this.matched) {
+      return new Matcher(this.variant, this.value, this.matched);
+    }
+    if (variant === this.variant && guard(this.value as never)) {
+      return new Matcher(this.variant, this.value, {
+        output: f(this.value as never),
+      });
+    }
+    return new Matcher(this.variant, this.value);
+  }
+}
+
+/**
+ * Starts a pattern match on an {@link Option} or a {@link Result}.
+ *
+ * Arms are added with `with` (and with `when` for guarded arms), and the match is
+ * completed with `exhaustive`, which only type checks once every variant is covered,
+ * or with `otherwise`, which provides a fallback.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const describe = (x: Option<number>): string =>
+ *   match(x)
+ *     .when('Some', (v) => v > 10, (v) => `big ${v}`)
+ *     .with('Some', (v) => `small ${v}`)
+ *     .with('None', () => 'nothing')
+ *     .exhaustive();
+ *
+ * assert.equal(describe(Some(42)), 'big 42');
+ * assert.equal(describe(Some(3)), 'small 3');
+ * assert.equal(describe(None), 'nothing');
+ *
+ * const r = Err('oops') as Result<number, string>;
+ * assert.equal(
+ *   match(r)
+ *     .with('Ok', (v) => v)
+ *     .with('Err', (e) => e.length)
+ *     .exhaustive(),
+ *   4,
+ * );
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/keyword.match.html)
+ */
+export function match<T>(value: Option<T>): Matcher<OptionCases<T>>;
+export function match<T, E>(value: Result<T, E>): Matcher<ResultCases<T, E>>;
+export function match(
+  value: Option<unknown> | Result<unknown, unknown>,
+): Matcher<OptionCases<unknown>> | Matcher<ResultCases<unknown, unknown>> {
+  if ('isSome' in value) {
+    return value.isSome()
+      ? new Matcher<OptionCases<unknown>>('Some', value.value)
+      : new Matcher<OptionCases<unknown>>('None', undefined);
+  }
+  return value.isOk()
+    ? new Matcher<ResultCases<unknown, unknown>>('Ok', value.value)
+    : new Matcher<ResultCases<unknown, unknown>>('Err', value.value);
+}
@@ -0,0 +1,198 @@
+import { None, Option, Some } from '.';
+
+type Key = string | number;
+
+type ParsePath<S extends string> = S extends `${infer A}[${infer I}]${infer R}`
+  ? ParsePath<`${A}.${I}${R}`>
+  : S extends `.${infer R}`
+  ? ParsePath<R>
+  : S extends `${infer H}.${infer R}`
+  ? [H, ...ParsePath<R>]
+  : S extends ''
+  ? []
+  : [S];
+
+type Step<T, K> = K extends keyof T
+  ? T[K]
+  : K extends `${infer N extends number}`
+  ? N extends keyof T
+    ? T[N]
+    : unknown
+  : unknown;
+
+/**
+ * The type of the value at `P` in `T`, as found by {@link Option.path}.
+ *
+ * `P` is a tuple of keys or a string path such as `'db.replicas[0].host'`.
+ * `null` and `undefined` are skipped on the way, but kept in the type of the last value.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type Config = { db?: { replicas: { host: string | null }[] } };
+ *
+ * type A = PathValue<Config, ['db', 'replicas', 0, 'host']>; // string | null
+ * type B = PathValue<Config, 'db.replicas[0].host'>; // string | null
+ * ```
+ */
+export type PathValue<T, P extends readonly Key[] | string> = P extends string
+  ? PathValue<T, ParsePath<P>>
+  : P extends readonly [infer K, ...infer R extends readonly Key[]]
+  ? PathValue<Step<NonNullable<T>, K>, R>
+  : T;
+
+const parsePath = (path: string): string[] =>
+  path
+    .replace(/\[([^\]]*)\]/g, '.$1')
+    .split('.')
+    .filter((key, i) => key !== '' || i !== 0);
+
+// NOTE: Records only have their own keys, so `constructor` or `__proto__` of a plain object
+// is absent. Other objects, such as class instances, also have inherited properties and getters.
+const hasProperty = (value: unknown, key: PropertyKey): boolean => {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null
+    ? Object.prototype.hasOwnProperty.call(value, key)
+    : key in Object(value);
+};
+
+/**
+ * Returns {@link Some} of the value at `path` in `obj`, or {@link None} if a property on the way
+ * is absent, keeping `null` and `undefined` values that are present.
+ *
+ * `path` is an array of keys, or a string such as `'db.replicas[0].host'`.
+ * Only own properties of plain objects are looked up, but inherited properties and getters of
+ * other objects, such as class instances, are looked up too.
+ *
+ * # Example
+ *
+ * ```ts
+ * const cfg: { db?: { replicas: { host: string | null }[] } } = {
+ *   db: { replicas: [{ host: null }] },
+ * };
+ *
+ * const x: Option<string | null> = Option.path(cfg, ['db', 'replicas', 0, 'host']);
+ * assert.deepEqual(x, Some(null));
+ * assert.deepEqual(Option.path(cfg, 'db.replicas[1].host'), None);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function path<T, P extends readonly Key[]>(
+  obj: T,
+  path: readonly [...P],
+): Option<PathValue<T, P>>;
+export function path<T, P extends string>(
+  obj: T,
+  path: P,
+): Option<PathValue<T, P>>;
+export function path(
+  obj: unknown,
+  path: readonly Key[] | string,
+): Option<unknown> {
+  let current = obj;
+  for (const key of typeof path === 'string' ? parsePath(path) : path) {
+    if (!hasProperty(current, key)) {
+      return None;
+    }
+    current = (current as Record<Key, unknown>)[key];
+  }
+  return Some(current);
+}
+
+/**
+ * Returns {@link Some} of the value of the property `key` of `obj`, or the entry for `key` of
+ * a `Map`, or {@link None} if it is absent.
+ *
+ * As with {@link Option.path}, only own properties of plain objects are looked up.
+ *
+ * # Example
+ *
+ * ```ts
+ * const env: Record<string, string | undefined> = { PORT: '8080', DEBUG: undefined };
+ *
+ * assert.deepEqual(Option.get(env, 'PORT'), Some('8080'));
+ * assert.deepEqual(Option.get(env, 'DEBUG'), Some(undefined));
+ * assert.deepEqual(Option.get(env, 'HOST'), None);
+ * assert.deepEqual(Option.get(new Map([['a', 1]]), 'a'), Some(1));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function get<K, V>(map: ReadonlyMap<K, V>, key: K): Option<V>;
+export function get<T extends object, K extends keyof T>(
+  obj: T,
+  key: K,
+): Option<T[K]>;
+export function get(obj: object, key: unknown): Option<unknown> {
+  if (obj instanceof Map) {
+    return obj.has(key) ? Some(obj.get(key)) : None;
+  }
+  return hasProperty(obj, key as PropertyKey)
+    ? Some((obj as Record<PropertyKey, unknown>)[key as PropertyKey])
+    : None;
+}
+
+/**
+ * Returns {@link Some} of the item at `index` of `array`, or {@link None} if it is out of bounds.
+ *
+ * Negative indices count back from the last item, like `Array.prototype.at`.
+ *
+ * # Example
+ *
+ * ```ts
+ * const xs = [1, 2, 3];
+ *
+ * assert.deepEqual(Option.at(xs, 0), Some(1));
+ * assert.deepEqual(Option.at(xs, -1), Some(3));
+ * assert.deepEqual(Option.at(xs, 3), None);
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/primitive.slice.html#method.get)
+ */
+export const at = <T>(array: ArrayLike<T>, index: number): Option<T> => {
+  const i = index < 0 ? array.length + index : index;
+  return Number.isInteger(i) && i >= 0 && i < array.length
+    ? Some(array[i])
+    : None;
+};
+
+/**
+ * Returns {@link Some} of the first item of `iterable` for which `predicate` returns `true`,
+ * or {@link None} if there is none.
+ *
+ * A type guard narrows the type of the item.
+ *
+ * # Example
+ *
+ * ```ts
+ * const xs = [1, 2, 3, 4];
+ *
+ * assert.deepEqual(Option.find(xs, (x) => x % 2 === 0), Some(2));
+ * assert.deepEqual(Option.find(new Set(xs), (x) => x > 4), None);
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/iter/trait.Iterator.html#method.find)
+ */
+export function find<T, U extends T>(
+  iterable: Iterable<T>,
+  predicate: (item: T) => item is U,
+): Option<U>;
+export function find<T>(
+  iterable: Iterable<T>,
+  predicate: (item: T) => boolean,
+): Option<T>;
+export function find<T>(
+  iterable: Iterable<T>,
+  predicate: (item: T) => boolean,
+): Option<T> {
+  for (const item of iterable) {
+    if (predicate(item)) {
+      return Some(item);
+    }
+  }
+  return None;
+}
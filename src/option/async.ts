@@ -0,0 +1,535 @@
+import { None, Option, Some } from '.';
+import { AsyncResult, Err, Ok, Result } from '../result';
+import { Awaitable } from '../util';
+import { fromUndefinable, SomeValue } from './impl';
+
+/**
+ * An {@link Option} that will be available in the future.
+ *
+ * `AsyncOption<T>` wraps a `Promise<Option<T>>` and mirrors the methods of
+ * {@link <internal>!OptionImpl}, except that every callback may return either a plain value or a
+ * `Promise` of it. It is itself awaitable, so `await` turns it back into a plain {@link Option}.
+ *
+ * Errors thrown (or promises rejected) by callbacks reject the `AsyncOption`
+ * as they would reject a `Promise`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const findUser = async (id: number): Promise<string | undefined> =>
+ *   id === 1 ? 'alice' : undefined;
+ *
+ * const x = await Option.fromPromise(findUser(1))
+ *   .filter(async (name) => name.length > 3)
+ *   .map((name) => name.toUpperCase());
+ * assert.deepEqual(x, Some('ALICE'));
+ * ```
+ *
+ * This is not in Rust.
+ *
+ * @see {@link Option.fromPromise}
+ * @see {@link <internal>!OptionImpl.toAsync}
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+  private readonly promise: Promise<Option<T>>;
+
+  /**
+   * @hidden
+   */
+  constructor(promise: Awaitable<Option<T>>) {
+    this.promise = Promise.resolve(promise);
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the underlying `Promise`.
+   *
+   * This makes `AsyncOption` awaitable.
+   */
+  then<TResult1 = Option<T>, TResult2 = never>(
+    onfulfilled?:
+      | ((value: Option<T>) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Resolves to `true` if the option is a {@link Some} value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Some(2).toAsync().isSome(), true);
+   * assert.equal(await None.toAsync().isSome(), false);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.isSome}
+   */
+  isSome(): Promise<boolean> {
+    return this.promise.then((opt) => opt.isSome());
+  }
+
+  /**
+   * Resolves to `true` if the option is a {@link None} value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Some(2).toAsync().isNone(), false);
+   * assert.equal(await None.toAsync().isNone(), true);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.isNone}
+   */
+  isNone(): Promise<boolean> {
+    return this.promise.then((opt) => opt.isNone());
+  }
+
+  /**
+   * Resolves to the contained {@link Some} value or a provided default.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Some('car').toAsync().unwrapOr('bike'), 'car');
+   * assert.equal(await None.toAsync().unwrapOr('bike'), 'bike');
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.unwrapOr}
+   */
+  unwrapOr(def: T): Promise<T> {
+    return this.promise.then((opt) => opt.unwrapOr(def));
+  }
+
+  /**
+   * Resolves to the contained {@link Some} value or computes it from a closure.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const k = 10;
+   * assert.equal(await Some(4).toAsync().unwrapOrElse(async () => 2 * k), 4);
+   * assert.equal(await None.toAsync().unwrapOrElse(async () => 2 * k), 20);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.unwrapOrElse}
+   */
+  unwrapOrElse(f: () => Awaitable<T>): Promise<T> {
+    return this.promise.then((opt) => (opt.isSome() ? opt.value : f()));
+  }
+
+  /**
+   * Maps an `AsyncOption<T>` to `AsyncOption<U>` by applying a function to a contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const len = async (s: string): Promise<number> => s.length;
+   *
+   * assert.deepEqual(await Some('Hello, World!').toAsync().map(len), Some(13));
+   * assert.deepEqual(await (None.toAsync() as AsyncOption<string>).map(len), None);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.map}
+   */
+  map<U>(f: (arg: T) => Awaitable<U>): AsyncOption<U> {
+    return new AsyncOption(
+      this.promise.then(async (opt) =>
+        opt.isSome() ? Some(await f(opt.value)) : None,
+      ),
+    );
+  }
+
+  /**
+   * Resolves to the provided default result (if none),
+   * or applies a function to the contained value (if any).
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = Some('foo').toAsync();
+   * assert.equal(await x.mapOr(42, async (v) => v.length), 3);
+   *
+   * const y = None.toAsync() as AsyncOption<string>;
+   * assert.equal(await y.mapOr(42, async (v) => v.length), 42);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.mapOr}
+   */
+  mapOr<U>(def: U, f: (arg: T) => Awaitable<U>): Promise<U> {
+    return this.promise.then((opt) => (opt.isSome() ? f(opt.value) : def));
+  }
+
+  /**
+   * Computes a default function result (if none), or
+   * applies a different function to the contained value (if any).
+   *
+   * # Examples
+   *
+   * ```ts
+   * const k = 21;
+   *
+   * const x = Some('foo').toAsync();
+   * assert.equal(await x.mapOrElse(async () => 2 * k, (v) => v.length), 3);
+   *
+   * const y = None.toAsync() as AsyncOption<string>;
+   * assert.equal(await y.mapOrElse(async () => 2 * k, (v) => v.length), 42);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.mapOrElse}
+   */
+  mapOrElse<U>(
+    def: () => Awaitable<U>,
+    f: (arg: T) => Awaitable<U>,
+  ): Promise<U> {
+    return this.promise.then((opt) => (opt.isSome() ? f(opt.value) : def()));
+  }
+
+  /**
+   * Calls `f` with the contained value if the option is {@link Some}, waits for it if it
+   * returns a `Promise`, and resolves to the option unchanged.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const saved: number[] = [];
+   * const save = async (v: number): Promise<void> => {
+   *   saved.push(v);
+   * };
+   *
+   * const x = await Some(2).toAsync().tap(save).map((v) => v * 2);
+   * assert.deepEqual(x, Some(4));
+   * assert.deepEqual(saved, [2]);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.inspect}
+   */
+  tap(f: (arg: T) => Awaitable<unknown>): AsyncOption<T> {
+    return new AsyncOption(
+      this.promise.then(async (opt) => {
+        if (opt.isSome()) {
+          await f(opt.value);
+        }
+        return opt;
+      }),
+    );
+  }
+
+  /**
+   * Transforms the `AsyncOption<T>` into an {@link AsyncResult `AsyncResult<T, E>`},
+   * mapping {@link Some `Some(v)`} to {@link Ok `Ok(v)`} and {@link None} to {@link Err `Err(err)`}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some('foo').toAsync().okOr(0), Ok('foo'));
+   * assert.deepEqual(await None.toAsync().okOr(0), Err(0));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.okOr}
+   */
+  okOr<E>(err: E): AsyncResult<T, E> {
+    return new AsyncResult(this.promise.then((opt) => opt.okOr(err)));
+  }
+
+  /**
+   * Transforms the `AsyncOption<T>` into an {@link AsyncResult `AsyncResult<T, E>`},
+   * mapping {@link Some `Some(v)`} to {@link Ok `Ok(v)`} and {@link None} to {@link Err `Err(err())`}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some('foo').toAsync().okOrElse(async () => 0), Ok('foo'));
+   * assert.deepEqual(await None.toAsync().okOrElse(async () => 0), Err(0));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.okOrElse}
+   */
+  okOrElse<E>(err: () => Awaitable<E>): AsyncResult<T, E> {
+    return new AsyncResult(
+      this.promise.then(
+        async (opt): Promise<Result<T, E>> =>
+          opt.isSome() ? Ok(opt.value) : Err(await err()),
+      ),
+    );
+  }
+
+  /**
+   * Resolves to {@link None} if the option is {@link None}, otherwise to `optb`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some(2).toAsync().and(None), None);
+   * assert.deepEqual(await Some(2).toAsync().and(Promise.resolve(Some('foo'))), Some('foo'));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.and}
+   */
+  and<U>(optb: Awaitable<Option<U>>): AsyncOption<U> {
+    return new AsyncOption(
+      this.promise.then((opt) => (opt.isSome() ? optb : None)),
+    );
+  }
+
+  /**
+   * Resolves to {@link None} if the option is {@link None}, otherwise calls `f` with the
+   * wrapped value and resolves to the result.
+   *
+   * `f` may return an {@link Option}, a `Promise` of an {@link Option} or another `AsyncOption`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const findManager = async (name: string): Promise<Option<string>> =>
+   *   name === 'alice' ? Some('bob') : None;
+   *
+   * assert.deepEqual(await Some('alice').toAsync().andThen(findManager), Some('bob'));
+   * assert.deepEqual(await Some('bob').toAsync().andThen(findManager), None);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.andThen}
+   */
+  andThen<U>(f: (arg: T) => Awaitable<Option<U>>): AsyncOption<U> {
+    return new AsyncOption(
+      this.promise.then((opt) => (opt.isSome() ? f(opt.value) : None)),
+    );
+  }
+
+  /**
+   * Resolves to {@link None} if the option is {@link None}, otherwise calls `predicate`
+   * with the wrapped value and resolves to:
+   *
+   * - {@link Some Some(t)} if `predicate` returns `true` (where `t` is the wrapped
+   *   value), and
+   * - {@link None} if `predicate` returns `false`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const isEven = async (n: number): Promise<boolean> => n % 2 == 0;
+   *
+   * assert.deepEqual(await Some(3).toAsync().filter(isEven), None);
+   * assert.deepEqual(await Some(4).toAsync().filter(isEven), Some(4));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.filter}
+   */
+  filter(predicate: (arg: T) => Awaitable<boolean>): AsyncOption<T> {
+    return new AsyncOption(
+      this.promise.then(async (opt) =>
+        opt.isSome() && (await predicate(opt.value)) ? opt : None,
+      ),
+    );
+  }
+
+  /**
+   * Resolves to the option if it contains a value, otherwise to `optb`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some(2).toAsync().or(None), Some(2));
+   * assert.deepEqual(await None.toAsync().or(Promise.resolve(Some(100))), Some(100));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.or}
+   */
+  or(optb: Awaitable<Option<T>>): AsyncOption<T> {
+    return new AsyncOption(
+      this.promise.then((opt) => (opt.isSome() ? opt : optb)),
+    );
+  }
+
+  /**
+   * Resolves to the option if it contains a value, otherwise calls `f` and
+   * resolves to the result.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const vikings = async (): Promise<Option<string>> => Some('vikings');
+   *
+   * assert.deepEqual(await Some('barbarians').toAsync().orElse(vikings), Some('barbarians'));
+   * assert.deepEqual(await None.toAsync().orElse(vikings), Some('vikings'));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.orElse}
+   */
+  orElse(f: () => Awaitable<Option<T>>): AsyncOption<T> {
+    return new AsyncOption(
+      this.promise.then((opt) => (opt.isSome() ? opt : f())),
+    );
+  }
+
+  /**
+   * Resolves to {@link Some} if exactly one of `this`, `optb` is {@link Some}, otherwise to {@link None}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some(2).toAsync().xor(None), Some(2));
+   * assert.deepEqual(await Some(2).toAsync().xor(Some(2)), None);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.xor}
+   */
+  xor(optb: Awaitable<Option<T>>): AsyncOption<T> {
+    return new AsyncOption(
+      Promise.all([this.promise, optb]).then(([opt, other]) => opt.xor(other)),
+    );
+  }
+
+  /**
+   * Zips `this` with another `Option`.
+   *
+   * If `this` is `Some(s)` and `other` is `Some(o)`, this method resolves to `Some([s, o])`.
+   * Otherwise, it resolves to `None`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some(1).toAsync().zip(Some('hi')), Some([1, 'hi']));
+   * assert.deepEqual(await Some(1).toAsync().zip(None), None);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.zip}
+   */
+  zip<U>(other: Awaitable<Option<U>>): AsyncOption<[T, U]> {
+    return new AsyncOption(
+      Promise.all([this.promise, other]).then(([opt, o]) => opt.zip(o)),
+    );
+  }
+
+  /**
+   * Transposes an `AsyncOption` of a {@link Result} into an {@link AsyncResult} of an {@link Option}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some(Ok(5)).toAsync().transpose(), Ok(Some(5)));
+   * assert.deepEqual(await (None.toAsync() as AsyncOption<Result<number, string>>).transpose(), Ok(None));
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.transpose}
+   */
+  transpose<U, E>(this: AsyncOption<Result<U, E>>): AsyncResult<Option<U>, E> {
+    return new AsyncResult(this.promise.then((opt) => opt.transpose()));
+  }
+
+  /**
+   * Converts from `AsyncOption<Option<T>>` to `AsyncOption<T>`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Some(Some(6)).toAsync().flatten(), Some(6));
+   * assert.deepEqual(await Some(None).toAsync().flatten(), None);
+   * ```
+   *
+   * @see {@link <internal>!OptionImpl.flatten}
+   */
+  flatten<U>(this: AsyncOption<Option<U>>): AsyncOption<U> {
+    return new AsyncOption(this.promise.then((opt) => opt.flatten()));
+  }
+
+  /**
+   * Returns an async iterator that yields the contained {@link Some} value, if any,
+   * so that an `AsyncOption` can be used with `for await...of`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * for await (const x of Some(2).toAsync()) {
+   *   assert.equal(x, 2);
+   * }
+   * ```
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, unknown> {
+    const opt = await this.promise;
+    if (opt.isSome()) {
+      yield opt.value;
+    }
+  }
+
+  /**
+   * Returns an async iterator that yields the option if it is {@link None}, and
+   * otherwise returns the contained {@link Some} value without yielding.
+   *
+   * This lets `yield*` unwrap an `AsyncOption` inside {@link Option.genAsync}.
+   */
+  async *try(): AsyncGenerator<None, T, unknown> {
+    const opt = await this.promise;
+    if (opt.isNone()) {
+      yield opt;
+    }
+    // NOTE: `genAsync` never resumes a generator after None is yielded.
+    return (opt as Some<T>).value;
+  }
+}
+
+/**
+ * Converts a `Promise<T | undefined>` into an {@link AsyncOption `AsyncOption<T>`},
+ * mapping `undefined` to {@link None} like {@link Option.fromUndefinable}.
+ *
+ * A rejected `Promise` rejects the `AsyncOption`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x = Option.fromPromise(Promise.resolve('foo'));
+ * assert.deepEqual(await x, Some('foo'));
+ *
+ * const y = Option.fromPromise(Promise.resolve(undefined));
+ * assert.deepEqual(await y, None);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromPromise = <T>(
+  promise: PromiseLike<T | undefined>,
+): AsyncOption<T> => {
+  return new AsyncOption(
+    Promise.resolve(promise).then((value) => fromUndefinable(value)),
+  );
+};
+
+/**
+ * Runs an async generator function in which `yield* x.try()` unwraps an {@link Option} or an
+ * {@link AsyncOption}, like the `?` operator in Rust.
+ *
+ * See {@link Option.gen} for details. A `Promise` of an {@link Option} can be unwrapped with
+ * `yield* (await promise).try()`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const findUser = (id: number): AsyncOption<string> =>
+ *   Option.fromPromise(Promise.resolve(id === 1 ? 'alice' : undefined));
+ *
+ * const x = await Option.genAsync(async function* () {
+ *   const name = yield* findUser(1).try();
+ *   const initial = yield* Option.fromUndefinable(name.at(0)).try();
+ *   return Some(initial);
+ * });
+ * assert.deepEqual(x, Some('a'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const genAsync = <O extends Option<unknown>>(
+  f: () => AsyncGenerator<None, O, unknown>,
+): AsyncOption<SomeValue<O>> => {
+  return new AsyncOption(
+    (async () => {
+      const iterator = f();
+      const next = await iterator.next();
+      if (!next.done) {
+        // NOTE: Run `finally` blocks of the generator.
+        await iterator.return(next.value as never);
+      }
+      return next.value as Option<SomeValue<O>>;
+    })(),
+  );
+};
@@ -0,0 +1,177 @@
+import { None, Option, Some } from '.';
+import { Default } from '../default';
+
+/**
+ * A mutable slot holding an {@link Option}.
+ *
+ * Options themselves are immutable, so the methods of Rust's `Option` that mutate it
+ * in place, such as `take`, `replace` and `get_or_insert_with`, live here instead.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const cache = new OptionCell<number>();
+ * assert.equal(cache.getOrInsertWith(() => 42), 42);
+ * assert.equal(cache.getOrInsertWith(() => 0), 42);
+ * assert.deepEqual(cache.take(), Some(42));
+ * assert.deepEqual(cache.get(), None);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export class OptionCell<T> {
+  constructor(private option: Option<T> = None) {}
+
+  /**
+   * Returns the option currently held by the cell.
+   */
+  get(): Option<T> {
+    return this.option;
+  }
+
+  /**
+   * Replaces the option held by the cell with `option`.
+   */
+  set(option: Option<T>): void {
+    this.option = option;
+  }
+
+  /**
+   * Inserts `value` into the cell, then returns it.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell<number>();
+   * assert.equal(cell.insert(1), 1);
+   * assert.equal(cell.insert(2), 2);
+   * assert.deepEqual(cell.get(), Some(2));
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.insert)
+   */
+  insert(value: T): T {
+    this.option = Some(value);
+    return value;
+  }
+
+  /**
+   * Inserts `value` into the cell if it is {@link None}, then returns the contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell<number>();
+   * assert.equal(cell.getOrInsert(5), 5);
+   * assert.equal(cell.getOrInsert(7), 5);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.get_or_insert)
+   */
+  getOrInsert(value: T): T {
+    return this.getOrInsertWith(() => value);
+  }
+
+  /**
+   * Inserts a value computed from `f` into the cell if it is {@link None},
+   * then returns the contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell<number>();
+   * assert.equal(cell.getOrInsertWith(() => 5), 5);
+   * assert.equal(cell.getOrInsertWith(() => 7), 5);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.get_or_insert_with)
+   */
+  getOrInsertWith(f: () => T): T {
+    if (this.option.isSome()) {
+      return this.option.value;
+    }
+    return this.insert(f());
+  }
+
+  /**
+   * Inserts the default of `T` given by `provider` into the cell if it is {@link None},
+   * then returns the contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell<string[]>();
+   * cell.getOrInsertDefault(Default.array()).push('a');
+   * cell.getOrInsertDefault(Default.array()).push('b');
+   * assert.deepEqual(cell.get(), Some(['a', 'b']));
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.get_or_insert_default)
+   */
+  getOrInsertDefault(provider: Default<T>): T {
+    return this.getOrInsertWith(() => provider.default());
+  }
+
+  /**
+   * Takes the option out of the cell, leaving a {@link None} in its place.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell(Some(2));
+   * assert.deepEqual(cell.take(), Some(2));
+   * assert.deepEqual(cell.get(), None);
+   * assert.deepEqual(cell.take(), None);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.take)
+   */
+  take(): Option<T> {
+    return this.replaceWith(None);
+  }
+
+  /**
+   * Takes the option out of the cell, leaving a {@link None} in its place,
+   * only if it is {@link Some} and `predicate` returns `true` for the contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell(Some(42));
+   * assert.deepEqual(cell.takeIf((v) => v % 2 === 1), None);
+   * assert.deepEqual(cell.takeIf((v) => v % 2 === 0), Some(42));
+   * assert.deepEqual(cell.get(), None);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.take_if)
+   */
+  takeIf(predicate: (value: T) => boolean): Option<T> {
+    return this.option.isSomeAnd(predicate) ? this.take() : None;
+  }
+
+  /**
+   * Puts {@link Some} of `value` into the cell, and returns the option that was in it.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const cell = new OptionCell(Some(2));
+   * assert.deepEqual(cell.replace(5), Some(2));
+   * assert.deepEqual(cell.get(), Some(5));
+   *
+   * const empty = new OptionCell<number>();
+   * assert.deepEqual(empty.replace(3), None);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.replace)
+   */
+  replace(value: T): Option<T> {
+    return this.replaceWith(Some(value));
+  }
+
+  private replaceWith(option: Option<T>): Option<T> {
+    const old = this.option;
+    this.option = option;
+    return old;
+  }
+}
@@ -1,5 +1,23 @@
 import { None, Option, Some } from '.';
 import { Err, Ok, Result } from '../result';
+import {
+  defaultCompare,
+  defaultEquals,
+  defaultHash,
+  hasKeys,
+  hashCombine,
+  isAsyncIterable,
+  isRecord,
+} from '../util';
+import { JSONFormat, OptionJSON } from '../json';
+import { AsyncOption } from './async';
+import { Default } from '../default';
+import { UnwrapError } from '../unwrap';
+
+/**
+ * @hidden
+ */
+export type SomeValue<O> = O extends Some<infer T> ? T : never;
 
 // TODO: fix to link
 /**
@@ -32,7 +50,7 @@ export class OptionImpl {
    * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.is_some)
    */
   isSome<T>(this: Option<T>): this is Some<T> {
-    // NOTE: This method is not called because it is proxied.
+    // NOTE: This method is not called because the variant classes shadow it on their prototypes.
     /* istanbul ignore next */
     return this.isSome();
   }
@@ -53,11 +71,109 @@ export class OptionImpl {
    * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.is_none)
    */
   isNone<T>(this: Option<T>): this is None {
-    // NOTE: This method is not called because it is proxied.
+    // NOTE: This method is not called because the variant classes shadow it on their prototypes.
     /* istanbul ignore next */
     return this.isNone();
   }
 
+  /**
+   * Returns `true` if the option is a {@link Some} and the value inside of it matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Option<number> = Some(2);
+   * assert.equal(x.isSomeAnd((v) => v > 1), true);
+   *
+   * const y: Option<number> = Some(0);
+   * assert.equal(y.isSomeAnd((v) => v > 1), false);
+   *
+   * const z: Option<number> = None;
+   * assert.equal(z.isSomeAnd((v) => v > 1), false);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.is_some_and)
+   */
+  isSomeAnd<T>(this: Option<T>, f: (arg: T) => boolean): boolean {
+    return this.isSome() && f(this.value);
+  }
+
+  /**
+   * Returns `true` if the option is a {@link None} or the value inside of it matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Option<number> = Some(2);
+   * assert.equal(x.isNoneOr((v) => v > 1), true);
+   *
+   * const y: Option<number> = Some(0);
+   * assert.equal(y.isNoneOr((v) => v > 1), false);
+   *
+   * const z: Option<number> = None;
+   * assert.equal(z.isNoneOr((v) => v > 1), true);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.is_none_or)
+   */
+  isNoneOr<T>(this: Option<T>, f: (arg: T) => boolean): boolean {
+    return this.isNone() || f(this.value);
+  }
+
+  /**
+   * Returns `true` if the option is a {@link Some} value containing the given value.
+   *
+   * The values are compared with `eq`, which defaults to the same comparison as {@link equals}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Option<number> = Some(2);
+   * assert.equal(x.contains(2), true);
+   *
+   * const y: Option<number> = Some(3);
+   * assert.equal(y.contains(2), false);
+   *
+   * const z: Option<number> = None;
+   * assert.equal(z.contains(2), false);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/1.40.0/std/option/enum.Option.html#method.contains)
+   */
+  contains<T>(
+    this: Option<T>,
+    x: T,
+    eq: (a: T, b: T) => boolean = defaultEquals,
+  ): boolean {
+    return this.isSome() && eq(this.value, x);
+  }
+
+  /**
+   * Returns the contained {@link Some} value, or throws an {@link UnwrapError} with `message`
+   * if the option is {@link None}.
+   *
+   * Like {@link unwrap} from `@schrosis/rus-ts/unwrap`, this is meant for where a {@link None}
+   * is a bug. Prefer {@link OptionImpl.unwrapOr} and the like elsewhere.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(Some('value').expect('fruits are healthy'), 'value');
+   * assert.throws(() => None.expect('fruits are healthy'), {
+   *   name: 'UnwrapError',
+   *   message: 'fruits are healthy',
+   * });
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.expect)
+   */
+  expect<T>(this: Option<T>, message: string): T {
+    if (this.isNone()) {
+      throw new UnwrapError(message, 'None');
+    }
+    return this.value;
+  }
+
   /**
    * Returns the contained {@link Some} value or a provided default.
    *
@@ -95,6 +211,29 @@ export class OptionImpl {
     return this.isSome() ? this.value : f();
   }
 
+  /**
+   * Returns the contained {@link Some} value or the default of `T` given by `provider`.
+   *
+   * See {@link Default} for the providers of built-in types.
+   *
+   * `unwrap` is not a method; it is in `@schrosis/rus-ts/unwrap`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Option<number> = None;
+   * assert.equal(x.unwrapOrDefault(Default.number), 0);
+   *
+   * const y: Option<string[]> = Some(['a']);
+   * assert.deepEqual(y.unwrapOrDefault(Default.array()), ['a']);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.unwrap_or_default)
+   */
+  unwrapOrDefault<T>(this: Option<T>, provider: Default<T>): T {
+    return this.isSome() ? this.value : provider.default();
+  }
+
   /**
    * Maps an `Option<T>` to `Option<U>` by applying a function to a contained value.
    *
@@ -163,6 +302,36 @@ export class OptionImpl {
     return this.isSome() ? f(this.value) : def();
   }
 
+  /**
+   * Calls `f` with the contained value if the option is {@link Some}, and returns the option
+   * unchanged, so that side effects such as logging do not break a chain.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const logged: number[] = [];
+   * const x = Some(4)
+   *   .inspect((v) => logged.push(v))
+   *   .map((v) => v * 2);
+   * assert.deepEqual(x, Some(8));
+   * assert.deepEqual(logged, [4]);
+   *
+   * None.inspect((v) => logged.push(v));
+   * assert.deepEqual(logged, [4]);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.inspect)
+   */
+  inspect<T>(this: Some<T>, f: (arg: T) => unknown): Some<T>;
+  inspect(this: None, f: (arg: never) => unknown): None;
+  inspect<T>(this: Option<T>, f: (arg: T) => unknown): Option<T>;
+  inspect<T>(this: Option<T>, f: (arg: never) => unknown): Option<T> {
+    if (this.isSome()) {
+      (f as (arg: T) => unknown)(this.value);
+    }
+    return this;
+  }
+
   /**
    * Transforms the `Option<T>` into a {@link Result `Result<T, E>`}, mapping {@link Some `Some(v)`} to
    * {@link Ok `Ok(v)`} and {@link None} to {@link Err `Err(err)`}.
@@ -358,6 +527,26 @@ export class OptionImpl {
     return this.isSome() ? this : f();
   }
 
+  /**
+   * Returns the option if it contains a value, otherwise returns {@link Some} of the default
+   * of `T` given by `provider`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Option<number> = None;
+   * assert.deepEqual(x.orDefault(Default.number), Some(0));
+   *
+   * const y: Option<number> = Some(2);
+   * assert.deepEqual(y.orDefault(Default.number), Some(2));
+   * ```
+   *
+   * This is not in Rust.
+   */
+  orDefault<T>(this: Option<T>, provider: Default<T>): Option<T> {
+    return this.isSome() ? this : Some(provider.default());
+  }
+
   /**
    * Returns {@link Some} if exactly one of `this`, `optb` is {@link Some}, otherwise returns {@link None}.
    *
@@ -418,6 +607,59 @@ export class OptionImpl {
       : None;
   }
 
+  /**
+   * Zips `this` and another `Option` with function `f`.
+   *
+   * If `this` is `Some(s)` and `other` is `Some(o)`, this method returns `Some(f(s, o))`.
+   * Otherwise, `None` is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const point = (x: number, y: number) => ({ x, y });
+   *
+   * const x = Some(17.5);
+   * const y = Some(42.7);
+   * assert.deepEqual(x.zipWith(y, point), Some({ x: 17.5, y: 42.7 }));
+   * assert.deepEqual(x.zipWith(None, point), None);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.zip_with)
+   */
+  zipWith<T, U, R>(
+    this: Option<T>,
+    other: Option<U>,
+    f: (a: T, b: U) => R,
+  ): Option<R> {
+    return this.isSome() && other.isSome()
+      ? Some(f(this.value, other.value))
+      : None;
+  }
+
+  /**
+   * Unzips an option containing a tuple of two values.
+   *
+   * If `this` is `Some([a, b])` this method returns `[Some(a), Some(b)]`.
+   * Otherwise, `[None, None]` is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Option<[number, string]> = Some([1, 'hi']);
+   * const y: Option<[number, string]> = None;
+   *
+   * assert.deepEqual(x.unzip(), [Some(1), Some('hi')]);
+   * assert.deepEqual(y.unzip(), [None, None]);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.unzip)
+   */
+  unzip<T, U>(this: Option<[T, U]>): [Option<T>, Option<U>] {
+    return this.isSome()
+      ? [Some(this.value[0]), Some(this.value[1])]
+      : [None, None];
+  }
+
   /**
    * Transposes an `Option` of a {@link Result} into a {@link Result} of an `Option`.
    *
@@ -485,6 +727,234 @@ export class OptionImpl {
   flatten<U>(this: Option<Option<U>>): Option<U> {
     return this.isSome() ? this.value : this;
   }
+
+  /**
+   * Returns `true` if both options are {@link None}, or both are {@link Some}
+   * and `eq` returns `true` for the contained values.
+   *
+   * By default, the contained values are compared with their `equals` method if they
+   * have one (so nested options and results are compared structurally), and with `===`
+   * otherwise, except that `NaN` equals `NaN`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(Some(2).equals(Some(2)), true);
+   * assert.equal(Some(2).equals(None), false);
+   * assert.equal(None.equals(None), true);
+   * assert.equal(Some(Ok(1)).equals(Some(Ok(1))), true);
+   *
+   * const x = Some({ id: 1 });
+   * assert.equal(x.equals(Some({ id: 1 })), false);
+   * assert.equal(x.equals(Some({ id: 1 }), (a, b) => a.id === b.id), true);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/cmp/trait.PartialEq.html#tymethod.eq)
+   */
+  equals<T>(
+    this: Option<T>,
+    other: Option<T>,
+    eq: (a: T, b: T) => boolean = defaultEquals,
+  ): boolean {
+    if (this.isSome()) {
+      return other.isSome() && eq(this.value, other.value);
+    }
+    return other.isNone();
+  }
+
+  /**
+   * Returns a negative number, zero or a positive number if the option is less than,
+   * equal to or greater than `other`, so that it can be used with `Array.prototype.sort`.
+   *
+   * {@link None} is less than any {@link Some}, and two {@link Some} values are
+   * ordered by `cmp`. By default, the contained values are compared with their `compare`
+   * method if they have one, and with `<` and `>` otherwise.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(None.compare(Some(0)), -1);
+   * assert.equal(Some(1).compare(Some(2)), -1);
+   * assert.equal(Some(2).compare(Some(2)), 0);
+   *
+   * const xs: Option<number>[] = [Some(3), None, Some(1)];
+   * assert.deepEqual(
+   *   xs.sort((a, b) => a.compare(b)),
+   *   [None, Some(1), Some(3)],
+   * );
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#impl-Ord-for-Option%3CT%3E)
+   */
+  compare<T>(
+    this: Option<T>,
+    other: Option<T>,
+    cmp: (a: T, b: T) => number = defaultCompare,
+  ): number {
+    if (this.isSome()) {
+      return other.isSome() ? cmp(this.value, other.value) : 1;
+    }
+    return other.isSome() ? -1 : 0;
+  }
+
+  /**
+   * Returns a 32-bit hash of the option, which is the same for options that are
+   * {@link equals equal}, so that they can be used as keys of hash-based collections.
+   *
+   * By default, the contained value is hashed with its `hash` method if it has one,
+   * with its type and string form if it is a primitive, and by its identity otherwise.
+   * Pass `hash` if the contained values are compared with a custom `eq`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(Some('a').hash(), Some('a').hash());
+   * assert.notEqual(Some('a').hash(), None.hash());
+   *
+   * const x = Some({ id: 1, name: 'a' });
+   * assert.equal(x.hash((v) => v.id), Some({ id: 1, name: 'b' }).hash((v) => v.id));
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/hash/trait.Hash.html)
+   */
+  hash<T>(this: Option<T>, hash: (value: T) => number = defaultHash): number {
+    return this.isSome() ? hashCombine(1, hash(this.value)) : hashCombine(0);
+  }
+
+  /**
+   * Returns an iterator over the possibly contained value.
+   *
+   * The option itself is iterable in the same way, with `for...of` and spread.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = Some(4);
+   * assert.deepEqual([...x.iter()], [4]);
+   *
+   * const y: Option<number> = None;
+   * assert.deepEqual([...y.iter()], []);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#method.iter)
+   */
+  *iter<T>(this: Option<T>): IterableIterator<T> {
+    if (this.isSome()) {
+      yield this.value;
+    }
+  }
+
+  /**
+   * Returns the contained {@link Some} value, or `null` if the option is {@link None}.
+   *
+   * This is the inverse of {@link Option.fromNullable}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: string | null = Some('foo').toNullable();
+   * assert.equal(x, 'foo');
+   *
+   * const y: Option<string> = None;
+   * assert.equal(y.toNullable(), null);
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toNullable<T>(this: Option<T>): T | null {
+    return this.isSome() ? this.value : null;
+  }
+
+  /**
+   * Returns the contained {@link Some} value, or `undefined` if the option is {@link None}.
+   *
+   * This is the inverse of {@link Option.fromUndefinable}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: string | undefined = Some('foo').toUndefinable();
+   * assert.equal(x, 'foo');
+   *
+   * const y: Option<string> = None;
+   * assert.equal(y.toUndefinable(), undefined);
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toUndefinable<T>(this: Option<T>): T | undefined {
+    return this.isSome() ? this.value : undefined;
+  }
+
+  /**
+   * Returns the JSON representation of the option, which is used by `JSON.stringify`.
+   *
+   * {@link Some `Some(v)`} is represented as `{ "$type": "Some", "value": v }`, and
+   * {@link None} as `{ "$type": "None" }`.
+   * See {@link Option.fromJSON} and {@link jsonReviver} for the other way around.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(JSON.stringify(Some(1)), '{"$type":"Some","value":1}');
+   * assert.equal(JSON.stringify(None), '{"$type":"None"}');
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toJSON<T>(this: Option<T>): OptionJSON<T> {
+    return this.isSome()
+      ? { $type: 'Some', value: this.value }
+      : { $type: 'None' };
+  }
+
+  /**
+   * Matches the option against the `Some` and `None` arms and returns
+   * the result of the arm that corresponds to the variant.
+   *
+   * Both arms are required, and the return type is the union of the arm return types.
+   * See {@link match} for guarded arms.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const describe = (x: Option<number>): string | number =>
+   *   x.match({
+   *     Some: (v) => v * 2,
+   *     None: () => 'nothing',
+   *   });
+   *
+   * assert.equal(describe(Some(2)), 4);
+   * assert.equal(describe(None), 'nothing');
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/keyword.match.html)
+   */
+  match<T, A, B>(
+    this: Option<T>,
+    arms: { Some: (value: T) => A; None: () => B },
+  ): A | B {
+    return this.isSome() ? arms.Some(this.value) : arms.None();
+  }
+
+  /**
+   * Converts `Option<T>` into an {@link AsyncOption `AsyncOption<T>`},
+   * whose methods accept callbacks returning a `Promise`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = await Some(2)
+   *   .toAsync()
+   *   .map(async (v) => v * 2);
+   * assert.deepEqual(x, Some(4));
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toAsync<T>(this: Option<T>): AsyncOption<T> {
+    return new AsyncOption(this);
+  }
 }
 
 /**
@@ -530,3 +1000,259 @@ export const fromUndefinable = <T>(value: T | undefined): Option<T> => {
 export const fromNullable = <T>(value: T | null): Option<T> => {
   return value === null ? None : Some(value);
 };
+
+/**
+ * Returns {@link Some} of `value` if `predicate` returns `true` for it, otherwise {@link None}.
+ *
+ * A type guard narrows the type of the value.
+ *
+ * # Example
+ *
+ * ```ts
+ * assert.deepEqual(Option.fromPredicate(2, (n) => n > 0), Some(2));
+ * assert.deepEqual(Option.fromPredicate(-2, (n) => n > 0), None);
+ *
+ * const x: Option<string> = Option.fromPredicate(
+ *   'foo' as unknown,
+ *   (v): v is string => typeof v === 'string',
+ * );
+ * assert.deepEqual(x, Some('foo'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function fromPredicate<T, U extends T>(
+  value: T,
+  predicate: (value: T) => value is U,
+): Option<U>;
+export function fromPredicate<T>(
+  value: T,
+  predicate: (value: T) => boolean,
+): Option<T>;
+export function fromPredicate<T>(
+  value: T,
+  predicate: (value: T) => boolean,
+): Option<T> {
+  return predicate(value) ? Some(value) : None;
+}
+
+/**
+ * Returns {@link None} if `value` is `NaN`, otherwise {@link Some} of `value`.
+ *
+ * # Example
+ *
+ * ```ts
+ * assert.deepEqual(Option.fromNaN(parseInt('42')), Some(42));
+ * assert.deepEqual(Option.fromNaN(parseInt('foo')), None);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromNaN = (value: number): Option<number> => {
+  return Number.isNaN(value) ? None : Some(value);
+};
+
+/**
+ * The falsy values, except `NaN`, which has no literal type.
+ *
+ * @hidden
+ */
+export type Falsy = false | 0 | -0 | 0n | '' | null | undefined;
+
+/**
+ * Returns {@link None} if `value` is falsy, otherwise {@link Some} of `value`,
+ * without the falsy types.
+ *
+ * # Example
+ *
+ * ```ts
+ * const x: Option<string> = Option.fromFalsy('foo' as string | undefined);
+ * assert.deepEqual(x, Some('foo'));
+ *
+ * assert.deepEqual(Option.fromFalsy(''), None);
+ * assert.deepEqual(Option.fromFalsy(0), None);
+ * assert.deepEqual(Option.fromFalsy(NaN), None);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromFalsy = <T>(value: T): Option<Exclude<T, Falsy>> => {
+  return value ? Some(value as Exclude<T, Falsy>) : None;
+};
+
+/**
+ * Runs a generator function in which `yield* option.try()` unwraps an {@link Option}, like the `?`
+ * operator in Rust.
+ *
+ * `yield* option.try()` evaluates to the contained {@link Some} value, or stops the generator
+ * and makes `gen` return {@link None}. Otherwise, `gen` returns the {@link Option} returned
+ * by the generator.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const arr2d = [['A0', 'A1'], ['B0', 'B1']];
+ *
+ * const concat = (i: number, j: number): Option<string> =>
+ *   Option.gen(function* () {
+ *     const row = yield* Option.fromUndefinable(arr2d.at(i)).try();
+ *     const item = yield* Option.fromUndefinable(row.at(j)).try();
+ *     return Some(`${i}${j}: ${item}`);
+ *   });
+ *
+ * assert.deepEqual(concat(0, 1), Some('01: A1'));
+ * assert.deepEqual(concat(2, 0), None);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const gen = <O extends Option<unknown>>(
+  f: () => Generator<None, O, unknown>,
+): Option<SomeValue<O>> => {
+  const iterator = f();
+  const next = iterator.next();
+  if (!next.done) {
+    // NOTE: Run `finally` blocks of the generator.
+    iterator.return(next.value as never);
+  }
+  return next.value as Option<SomeValue<O>>;
+};
+
+type Options = readonly Option<unknown>[] | [];
+
+type OptionRecord = Readonly<Record<string, Option<unknown>>>;
+
+/**
+ * Converts an array, a tuple or a record of {@link Option}s into an {@link Option} of
+ * the contained {@link Some} values with the same shape, or returns {@link None} if
+ * any of them is {@link None}.
+ *
+ * This is like `collect::<Option<Vec<_>>>()` in Rust.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Option<number[]> = Option.all([Some(1), Some(2)]);
+ * assert.deepEqual(x, Some([1, 2]));
+ *
+ * const y: Option<[number, string]> = Option.all([Some(1), None as Option<string>]);
+ * assert.deepEqual(y, None);
+ *
+ * const z: Option<{ a: number; b: string }> = Option.all({ a: Some(1), b: Some('b') });
+ * assert.deepEqual(z, Some({ a: 1, b: 'b' }));
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#impl-FromIterator%3COption%3CA%3E%3E-for-Option%3CV%3E)
+ */
+export function all<O extends Options>(
+  options: O,
+): Option<{ -readonly [K in keyof O]: SomeValue<O[K]> }>;
+export function all<O extends OptionRecord>(
+  options: O,
+): Option<{ -readonly [K in keyof O]: SomeValue<O[K]> }>;
+export function all(options: Options | OptionRecord): Option<unknown> {
+  const values = (Array.isArray(options) ? [] : {}) as Record<string, unknown>;
+  for (const [key, opt] of Object.entries(options)) {
+    if (opt.isNone()) {
+      return None;
+    }
+    values[key] = opt.value;
+  }
+  return Some(values);
+}
+
+/**
+ * Lazily iterates over the contained {@link Some} values of an `Iterable` or
+ * an `AsyncIterable` of {@link Option}s, skipping {@link None}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const options = [Some(1), None, Some(3)];
+ * assert.deepEqual([...Option.flattenIter(options)], [1, 3]);
+ *
+ * for await (const v of Option.flattenIter(asyncOptions)) {
+ *   console.log(v);
+ * }
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/iter/trait.Iterator.html#method.flatten)
+ */
+export function flattenIter<T>(
+  options: Iterable<Option<T>>,
+): IterableIterator<T>;
+export function flattenIter<T>(
+  options: AsyncIterable<Option<T>>,
+): AsyncIterableIterator<T>;
+export function flattenIter<T>(
+  options: Iterable<Option<T>> | AsyncIterable<Option<T>>,
+): IterableIterator<T> | AsyncIterableIterator<T> {
+  if (isAsyncIterable(options)) {
+    return (async function* () {
+      for await (const opt of options) {
+        yield* opt.iter();
+      }
+    })();
+  }
+  return (function* () {
+    for (const opt of options) {
+      yield* opt.iter();
+    }
+  })();
+}
+
+/**
+ * Converts a parsed JSON value into an {@link Option}, validating its shape.
+ *
+ * The value must be in the given format (`'tagged'` by default, see {@link JSONFormat}).
+ * If `value` is given, the contained value is also validated with it.
+ * Nested options are not converted; use {@link jsonReviver} for that.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const isNumber = (v: unknown): v is number => typeof v === 'number';
+ *
+ * const x = Option.fromJSON(JSON.parse('{"$type":"Some","value":1}'), { value: isNumber });
+ * assert.deepEqual(x, Ok(Some(1)));
+ *
+ * const y = Option.fromJSON(JSON.parse('{"$type":"Some","value":"1"}'), { value: isNumber });
+ * assert.equal(y.isErr(), true);
+ *
+ * const z = Option.fromJSON(null, { format: 'serde' });
+ * assert.deepEqual(z, Ok(None));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromJSON = <T = unknown>(
+  json: unknown,
+  {
+    format = 'tagged',
+    value: validate = (_: unknown): _ is T => true,
+  }: { format?: JSONFormat; value?: (value: unknown) => value is T } = {},
+): Result<Option<T>, TypeError> => {
+  if (format === 'serde') {
+    if (json === null) {
+      return Ok(None);
+    }
+    return validate(json)
+      ? Ok(Some(json))
+      : Err(new TypeError('invalid Some value'));
+  }
+  if (isRecord(json) && json.$type === 'None' && hasKeys(json, '$type')) {
+    return Ok(None);
+  }
+  if (
+    isRecord(json) &&
+    json.$type === 'Some' &&
+    (hasKeys(json, '$type', 'value') || hasKeys(json, '$type'))
+  ) {
+    return validate(json.value)
+      ? Ok(Some(json.value))
+      : Err(new TypeError('invalid Some value'));
+  }
+  return Err(
+    new TypeError('expected {"$type":"Some","value":...} or {"$type":"None"}'),
+  );
+};
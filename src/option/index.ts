@@ -1,9 +1,30 @@
 import { None as NoneClass } from './none';
 import { Some as SomeClass } from './some';
 import { Mixin, mixin } from '../util';
-import { fromNullable, fromUndefinable, OptionImpl } from './impl';
+import { isNone, isSome } from '../guard';
+import {
+  all,
+  flattenIter,
+  fromFalsy,
+  fromJSON,
+  fromNaN,
+  fromNullable,
+  fromPredicate,
+  fromUndefinable,
+  gen,
+  OptionImpl,
+} from './impl';
+import { fromPromise, genAsync } from './async';
+import { fromProps, toProps } from './props';
+import { at, find, get, path } from './access';
+
+export { AsyncOption } from './async';
+export { OptionCell } from './cell';
+export type { FromProps, NoneProp, NullablePaths, ToProps } from './props';
+export type { PathValue } from './access';
 
-const optionImpl = new OptionImpl();
+mixin(NoneClass, OptionImpl);
+mixin(SomeClass, OptionImpl);
 
 // TODO: fix to link
 /**
@@ -24,6 +45,21 @@ export type Option<T> = None | Some<T>;
 export const Option = {
   fromUndefinable,
   fromNullable,
+  fromPredicate,
+  fromNaN,
+  fromFalsy,
+  fromPromise,
+  gen,
+  genAsync,
+  all,
+  flattenIter,
+  fromJSON,
+  fromProps,
+  toProps,
+  path,
+  get,
+  at,
+  find,
 };
 
 /**
@@ -38,11 +74,18 @@ export type None = Mixin<NoneClass, OptionImpl>;
 /**
  * No value.
  *
+ * `x instanceof None` checks the variant like {@link isNone}. TypeScript before 5.3 does not
+ * accept `None` on the right of `instanceof` without a cast, since it is not a function.
+ *
  * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#variant.None)
  *
  * @see {@link Option}
  */
-export const None: None = mixin(new NoneClass(), optionImpl);
+export const None = Object.defineProperty(
+  new NoneClass() as None,
+  Symbol.hasInstance,
+  { value: isNone },
+);
 
 /**
  * Some value of type T.
@@ -56,9 +99,14 @@ export type Some<T> = Mixin<SomeClass<T>, OptionImpl>;
 /**
  * Some value of type T.
  *
+ * `x instanceof Some` checks the variant like {@link isSome}.
+ *
  * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#variant.Some)
  *
  * @see {@link Option}
  */
-export const Some = <T>(value: T): Some<T> =>
-  mixin(new SomeClass(value), optionImpl);
+export const Some = Object.defineProperty(
+  <T>(value: T): Some<T> => new SomeClass(value) as Some<T>,
+  Symbol.hasInstance,
+  { value: isSome },
+);
@@ -1,3 +1,5 @@
+import { variant } from '../util';
+
 const NoneType = Symbol('None');
 
 /**
@@ -11,6 +13,15 @@ const NoneType = Symbol('None');
 export class None {
   [NoneType]!: never;
 
+  /**
+   * The name of the variant, used by {@link isNone} and the other guards.
+   *
+   * @hidden
+   */
+  get [variant](): 'None' {
+    return 'None';
+  }
+
   /**
    * Returns `true` if the option is a {@link Some} value.
    *
@@ -48,4 +59,34 @@ export class None {
   isNone(): this is None {
     return true;
   }
+
+  /**
+   * Returns an iterator that yields nothing, so that an option can be used with
+   * `for...of` and spread like a collection of zero or one item.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual([...None], []);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#impl-IntoIterator-for-Option%3CT%3E)
+   */
+  [Symbol.iterator](): IterableIterator<never> {
+    return [][Symbol.iterator]();
+  }
+
+  /**
+   * Returns an iterator that yields `this`.
+   *
+   * This lets `yield*` short-circuit {@link Option.gen} on {@link None}.
+   *
+   * This is not in Rust.
+   */
+  *try(): Generator<this, never, unknown> {
+    yield this;
+    // NOTE: `gen` never resumes a generator after None is yielded.
+    /* istanbul ignore next */
+    return undefined as never;
+  }
 }
@@ -0,0 +1,270 @@
+import { None, Option, Some } from '.';
+import { isOption } from '../guard';
+import type { Result } from '../result';
+
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  | Function
+  | Date
+  | RegExp
+  | Error
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>
+  | PromiseLike<unknown>
+  | Option<unknown>
+  | Result<unknown, unknown>;
+
+type MethodKeys<T> = {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  [K in keyof T]-?: NonNullable<T[K]> extends Function ? K : never;
+}[keyof T];
+
+// Objects with methods, such as class instances, typed arrays and URLs, are not converted.
+type IsLeaf<T> = T extends Leaf
+  ? true
+  : T extends readonly unknown[]
+  ? false
+  : [MethodKeys<T>] extends [never]
+  ? false
+  : true;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type SubPaths<P extends string, K> = P extends `${K & string}.${infer R}`
+  ? R
+  : never;
+
+/**
+ * The paths of the optional and nullable properties of `T`, such as `'bio'` or `'posts.title'`,
+ * which {@link Option.fromProps} can convert into {@link Option}s.
+ *
+ * Arrays are not part of the path, so `'posts.title'` is the `title` of every item of `posts`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = NullablePaths<{ id: number; bio?: string; posts: { title: string | null }[] }>;
+ * // 'bio' | 'posts.title'
+ * ```
+ */
+export type NullablePaths<T> = IsLeaf<T> extends true
+  ? never
+  : T extends readonly (infer U)[]
+  ? NullablePaths<U>
+  : {
+      [K in keyof T & string]-?:
+        | (undefined extends T[K] ? K : null extends T[K] ? K : never)
+        | `${K}.${NullablePaths<NonNullable<T[K]>>}`;
+    }[keyof T & string];
+
+/**
+ * The type of `T` converted by {@link Option.fromProps} with the paths `P`.
+ *
+ * The properties at `P` become required {@link Option}s of their types without `null` and
+ * `undefined`, and the other properties are kept. `P` defaults to all the optional and
+ * nullable properties, including those of nested objects and arrays.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = FromProps<{ id: number; bio?: string | null; tags: { name?: string }[] }>;
+ * // { id: number; bio: Option<string>; tags: { name: Option<string> }[] }
+ * ```
+ */
+export type FromProps<T, P extends string = NullablePaths<T>> = [P] extends [
+  never,
+]
+  ? T
+  : IsLeaf<T> extends true
+  ? T
+  : T extends readonly (infer U)[]
+  ? FromProps<U, P>[]
+  : Simplify<
+      {
+        -readonly [K in keyof T as K extends P ? never : K]: FromProps<
+          T[K],
+          SubPaths<P, K>
+        >;
+      } & {
+        -readonly [K in keyof T as K extends P ? K : never]-?: Option<
+          FromProps<NonNullable<T[K]>, SubPaths<P, K>>
+        >;
+      }
+    >;
+
+/**
+ * How {@link Option.toProps} represents {@link None}.
+ *
+ * - `'null'`: the property is `null`.
+ * - `'undefined'`: the property is `undefined`.
+ * - `'omit'`: the property is omitted. In arrays, it is `undefined`.
+ */
+export type NoneProp = 'null' | 'undefined' | 'omit';
+
+type NoneValue<N extends NoneProp> = N extends 'null' ? null : undefined;
+
+type OptionKeys<T> = {
+  [K in keyof T]-?: T[K] extends Option<unknown> ? K : never;
+}[keyof T];
+
+type ToPropsObject<T, N extends NoneProp> = N extends 'omit'
+  ? Simplify<
+      {
+        -readonly [K in Exclude<keyof T, OptionKeys<T>>]: ToProps<T[K], N>;
+      } & {
+        -readonly [K in OptionKeys<T>]?: ToProps<T[K], N>;
+      }
+    >
+  : { -readonly [K in keyof T]: ToProps<T[K], N> };
+
+/**
+ * The type of `T` converted by {@link Option.toProps}, representing {@link None} as `N`.
+ *
+ * {@link Option} properties become their contained type or `null`, `undefined` or an omitted
+ * property, and nested objects and arrays are converted too.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = ToProps<{ id: number; bio: Option<string> }, 'null'>;
+ * // { id: number; bio: string | null }
+ * type B = ToProps<{ id: number; bio: Option<string> }, 'omit'>;
+ * // { id: number; bio?: string }
+ * ```
+ */
+export type ToProps<T, N extends NoneProp = 'undefined'> = [T] extends [
+  Option<infer U>,
+]
+  ? ToProps<U, N> | NoneValue<N>
+  : IsLeaf<T> extends true
+  ? T
+  : T extends readonly (infer U)[]
+  ? ToProps<U, N>[]
+  : ToPropsObject<T, N>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return (
+    (proto === Object.prototype || proto === null) &&
+    !Object.values(value).some((prop) => typeof prop === 'function')
+  );
+};
+
+const convertFrom = (value: unknown, paths: readonly string[]): unknown => {
+  if (paths.length === 0) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => convertFrom(item, paths));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const keys = new Set(Object.keys(value));
+  paths.filter((path) => !path.includes('.')).forEach((key) => keys.add(key));
+
+  const props: Record<string, unknown> = {};
+  for (const key of keys) {
+    const prop = value[key];
+    const subPaths = paths
+      .filter((path) => path.startsWith(`${key}.`))
+      .map((path) => path.slice(key.length + 1));
+    props[key] = !paths.includes(key)
+      ? convertFrom(prop, subPaths)
+      : prop === null || prop === undefined
+      ? None
+      : Some(convertFrom(prop, subPaths));
+  }
+  return props;
+};
+
+/**
+ * Converts the properties at `paths` of a plain object into {@link Option}s, mapping `null`,
+ * `undefined` and absent properties to {@link None} and other values to {@link Some}.
+ *
+ * A path such as `'posts.title'` names a property of a nested object, and arrays are not part of
+ * the path. Since the optional properties are not known at runtime, they are given as `paths`,
+ * which are checked against {@link NullablePaths}. The other properties, and values other than
+ * plain objects and arrays such as class instances, are kept as they are.
+ *
+ * # Example
+ *
+ * ```ts
+ * const dto: { id: number; bio?: string | null; posts: { title: string | null }[] } = {
+ *   id: 1,
+ *   bio: null,
+ *   posts: [{ title: 'hello' }],
+ * };
+ * const model = Option.fromProps(dto, ['bio', 'posts.title']);
+ *
+ * assert.deepEqual(model, {
+ *   id: 1,
+ *   bio: None,
+ *   posts: [{ title: Some('hello') }],
+ * });
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromProps = <T extends object, P extends NullablePaths<T>>(
+  obj: T,
+  paths: readonly P[],
+): FromProps<T, P> => convertFrom(obj, paths) as FromProps<T, P>;
+
+const convertTo = (value: unknown, none: NoneProp): unknown => {
+  if (isOption(value)) {
+    return value.isSome()
+      ? convertTo(value.value, none)
+      : none === 'null'
+      ? null
+      : undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => convertTo(item, none));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const props: Record<string, unknown> = {};
+  for (const [key, prop] of Object.entries(value)) {
+    if (none === 'omit' && isOption(prop) && prop.isNone()) {
+      continue;
+    }
+    props[key] = convertTo(prop, none);
+  }
+  return props;
+};
+
+/**
+ * Converts the {@link Option} properties of a plain object back into plain values,
+ * representing {@link None} as `null`, `undefined` or an omitted property, including
+ * the properties of nested objects and arrays.
+ *
+ * This is the inverse of {@link Option.fromProps}. Properties other than {@link Option}s,
+ * and values other than plain objects and arrays, are kept as they are.
+ *
+ * # Example
+ *
+ * ```ts
+ * const model = { id: 1, bio: None as Option<string>, tags: [Some('a'), None] };
+ *
+ * assert.deepEqual(Option.toProps(model, { none: 'null' }), { id: 1, bio: null, tags: ['a', null] });
+ * assert.deepEqual(Option.toProps(model, { none: 'omit' }), { id: 1, tags: ['a', undefined] });
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const toProps = <T extends object, N extends NoneProp = 'undefined'>(
+  model: T,
+  { none = 'undefined' as N }: { none?: N } = {},
+): ToProps<T, N> => convertTo(model, none) as ToProps<T, N>;
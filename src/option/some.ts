@@ -1,3 +1,5 @@
+import { variant } from '../util';
+
 const SomeType = Symbol('Some');
 
 /**
@@ -13,6 +15,15 @@ export class Some<T> {
 
   constructor(readonly value: T) {}
 
+  /**
+   * The name of the variant, used by {@link isSome} and the other guards.
+   *
+   * @hidden
+   */
+  get [variant](): 'Some' {
+    return 'Some';
+  }
+
   /**
    * Returns `true` if the option is a {@link Some} value.
    *
@@ -50,4 +61,31 @@ export class Some<T> {
   isNone(): boolean {
     return false;
   }
+
+  /**
+   * Returns an iterator that yields the contained value, so that an option can be used with
+   * `for...of` and spread like a collection of zero or one item.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual([...Some(2)], [2]);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/option/enum.Option.html#impl-IntoIterator-for-Option%3CT%3E)
+   */
+  *[Symbol.iterator](): Generator<T, void, unknown> {
+    yield this.value;
+  }
+
+  /**
+   * Returns an iterator that returns the contained value without yielding.
+   *
+   * This lets `yield*` unwrap an option inside {@link Option.gen}.
+   *
+   * This is not in Rust.
+   */
+  *try(): Generator<never, T, unknown> {
+    return this.value;
+  }
 }
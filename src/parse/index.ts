@@ -0,0 +1,299 @@
+import { TaggedError } from '../error';
+import { None, Option, Some } from '../option';
+import { Err, Ok, Result } from '../result';
+import { isRecord } from '../util';
+
+export { fromStandardSchema, fromStandardSchemaAsync } from './standard';
+export type { StandardSchemaV1 } from './standard';
+
+/**
+ * A problem found by a {@link Parser}, at `path` in the input.
+ */
+export interface Issue {
+  readonly path: readonly PropertyKey[];
+  readonly message: string;
+}
+
+const formatPath = (path: readonly PropertyKey[]): string =>
+  path
+    .map((key, i) =>
+      typeof key === 'number'
+        ? `[${key}]`
+        : `${i === 0 ? '' : '.'}${String(key)}`,
+    )
+    .join('');
+
+/**
+ * The error of a {@link Parser}, holding every {@link Issue} found in the input.
+ *
+ * The message lists the issues, one per line, prefixed with their paths.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const e = new ParseError([{ path: ['tags', 0], message: 'expected string, received number' }]);
+ * assert.equal(e._tag, 'ParseError');
+ * assert.equal(e.message, 'tags[0]: expected string, received number');
+ * ```
+ *
+ * This is not in Rust.
+ */
+export class ParseError extends TaggedError<'ParseError'> {
+  constructor(readonly issues: readonly Issue[]) {
+    super(
+      'ParseError',
+      issues
+        .map(({ path, message }) =>
+          path.length === 0 ? message : `${formatPath(path)}: ${message}`,
+        )
+        .join('\n'),
+    );
+  }
+}
+
+/**
+ * A function that validates an untrusted input and returns it as `T`,
+ * or a {@link ParseError} instead of throwing.
+ */
+export type Parser<T> = (input: unknown) => Result<T, ParseError>;
+
+/**
+ * The type of the values returned by a {@link Parser}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const user = object({ name: string, age: optional(number) });
+ * type User = Infer<typeof user>; // { name: string; age: Option<number> }
+ * ```
+ */
+export type Infer<P> = P extends Parser<infer T> ? T : never;
+
+const fail = (message: string): Err<ParseError> =>
+  Err(new ParseError([{ path: [], message }]));
+
+const typeOf = (input: unknown): string =>
+  input === null ? 'null' : Array.isArray(input) ? 'array' : typeof input;
+
+const primitive =
+  <T>(type: string, guard: (input: unknown) => input is T): Parser<T> =>
+  (input) =>
+    guard(input)
+      ? Ok(input)
+      : fail(`expected ${type}, received ${typeOf(input)}`);
+
+const at =
+  (key: PropertyKey) =>
+  (error: ParseError): ParseError =>
+    new ParseError(
+      error.issues.map(({ path, message }) => ({
+        path: [key, ...path],
+        message,
+      })),
+    );
+
+const concat = (errors: ParseError[]): ParseError =>
+  new ParseError(errors.flatMap((e) => e.issues));
+
+/**
+ * Parses a string.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assert.deepEqual(string('a'), Ok('a'));
+ * assert.equal(string(1).isErrAnd((e) => e.message === 'expected string, received number'), true);
+ * ```
+ */
+export const string: Parser<string> = primitive(
+  'string',
+  (input): input is string => typeof input === 'string',
+);
+
+/**
+ * Parses a number other than `NaN`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assert.deepEqual(number(1), Ok(1));
+ * assert.equal(number('1').isErr(), true);
+ * assert.equal(number(NaN).isErr(), true);
+ * ```
+ */
+export const number: Parser<number> = primitive(
+  'number',
+  (input): input is number => typeof input === 'number' && !Number.isNaN(input),
+);
+
+/**
+ * Parses a boolean.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assert.deepEqual(boolean(true), Ok(true));
+ * assert.equal(boolean('true').isErr(), true);
+ * ```
+ */
+export const boolean: Parser<boolean> = primitive(
+  'boolean',
+  (input): input is boolean => typeof input === 'boolean',
+);
+
+/**
+ * Parses an object with the properties parsed by `shape`.
+ *
+ * Every property is parsed, and the issues of all of them are reported with their paths.
+ * Unknown properties are dropped.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const user = object({ name: string, age: number });
+ *
+ * assert.deepEqual(user({ name: 'alice', age: 20, admin: true }), Ok({ name: 'alice', age: 20 }));
+ * assert.equal(
+ *   user({ age: '20' }).isErrAnd((e) => e.issues.length === 2),
+ *   true,
+ * );
+ * ```
+ */
+export const object =
+  <S extends Record<string, Parser<unknown>>>(
+    shape: S,
+  ): Parser<{ [K in keyof S]: Infer<S[K]> }> =>
+  (input) => {
+    if (!isRecord(input)) {
+      return fail(`expected object, received ${typeOf(input)}`);
+    }
+    const values: Record<string, unknown> = {};
+    const errors: ParseError[] = [];
+    for (const [key, parser] of Object.entries(shape)) {
+      const res = parser(input[key]).mapErr(at(key));
+      if (res.isOk()) {
+        values[key] = res.value;
+      } else {
+        errors.push(res.value);
+      }
+    }
+    return errors.length === 0
+      ? Ok(values as { [K in keyof S]: Infer<S[K]> })
+      : Err(concat(errors));
+  };
+
+/**
+ * Parses an array of the items parsed by `item`.
+ *
+ * Every item is parsed, and the issues of all of them are reported with their indices.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const tags = array(string);
+ *
+ * assert.deepEqual(tags(['a', 'b']), Ok(['a', 'b']));
+ * assert.equal(tags(['a', 1]).isErrAnd((e) => e.message === '[1]: expected string, received number'), true);
+ * ```
+ */
+export const array =
+  <T>(item: Parser<T>): Parser<T[]> =>
+  (input) => {
+    if (!Array.isArray(input)) {
+      return fail(`expected array, received ${typeOf(input)}`);
+    }
+    const values: T[] = [];
+    const errors: ParseError[] = [];
+    input.forEach((value, i) => {
+      const res = item(value).mapErr(at(i));
+      if (res.isOk()) {
+        values.push(res.value);
+      } else {
+        errors.push(res.value);
+      }
+    });
+    return errors.length === 0 ? Ok(values) : Err(concat(errors));
+  };
+
+/**
+ * Parses the input with the first of `parsers` that succeeds,
+ * or reports the issues of all of them.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const id = union(string, number);
+ *
+ * assert.deepEqual(id('a'), Ok('a'));
+ * assert.deepEqual(id(1), Ok(1));
+ * assert.equal(id(true).isErrAnd((e) => e.issues.length === 2), true);
+ * ```
+ */
+export const union =
+  <P extends Parser<unknown>[]>(...parsers: P): Parser<Infer<P[number]>> =>
+  (input) => {
+    const errors: ParseError[] = [];
+    for (const parser of parsers) {
+      const res = parser(input);
+      if (res.isOk()) {
+        return res as Ok<Infer<P[number]>>;
+      }
+      errors.push(res.value);
+    }
+    return Err(concat(errors));
+  };
+
+/**
+ * Parses `undefined` and `null` as {@link None}, and other inputs with `parser` into {@link Some}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const user = object({ name: string, nickname: optional(string) });
+ *
+ * assert.deepEqual(user({ name: 'alice' }), Ok({ name: 'alice', nickname: None }));
+ * assert.deepEqual(user({ name: 'bob', nickname: 'b' }), Ok({ name: 'bob', nickname: Some('b') }));
+ * ```
+ */
+export const optional =
+  <T>(parser: Parser<T>): Parser<Option<T>> =>
+  (input) =>
+    input === undefined || input === null
+      ? Ok(None)
+      : parser(input).map((value): Option<T> => Some(value));
+
+/**
+ * Parses the input with `parser`, and fails with `message` unless `predicate` returns `true`
+ * for the value.
+ *
+ * A type guard narrows the type of the value.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const age = refine(number, (n) => Number.isInteger(n) && n >= 0, 'expected a non-negative integer');
+ *
+ * assert.deepEqual(age(20), Ok(20));
+ * assert.equal(age(-1).isErrAnd((e) => e.message === 'expected a non-negative integer'), true);
+ * ```
+ */
+export function refine<T, U extends T>(
+  parser: Parser<T>,
+  predicate: (value: T) => value is U,
+  message: string,
+): Parser<U>;
+export function refine<T>(
+  parser: Parser<T>,
+  predicate: (value: T) => boolean,
+  message: string,
+): Parser<T>;
+export function refine<T>(
+  parser: Parser<T>,
+  predicate: (value: T) => boolean,
+  message: string,
+): Parser<T> {
+  return (input) =>
+    parser(input).andThen((value) =>
+      predicate(value) ? Ok(value) : fail(message),
+    );
+}
@@ -0,0 +1,126 @@
+import { Err, Ok, Result } from '../result';
+import { AsyncResult } from '../result/async';
+import { ParseError } from '.';
+
+/**
+ * The interface of [Standard Schema](https://standardschema.dev/) v1,
+ * implemented by validators such as Zod, Valibot and ArkType.
+ *
+ * It is declared here so that no validator needs to be installed.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaV1.Result<Output>
+      | Promise<StandardSchemaV1.Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly Issue[] };
+
+  interface Issue {
+    readonly message: string;
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+  }
+
+  type InferOutput<S extends StandardSchemaV1> = NonNullable<
+    S['~standard']['types']
+  >['output'];
+}
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { then?: unknown }).then === 'function';
+
+const toResult = <T>(
+  result: StandardSchemaV1.Result<T>,
+): Result<T, ParseError> =>
+  result.issues
+    ? Err(
+        new ParseError(
+          result.issues.map(({ message, path = [] }) => ({
+            message,
+            path: path.map((key) => (typeof key === 'object' ? key.key : key)),
+          })),
+        ),
+      )
+    : Ok(result.value);
+
+/**
+ * Converts a [Standard Schema](https://standardschema.dev/) into a {@link Parser}.
+ *
+ * The issues of the schema are converted into the issues of a {@link ParseError}.
+ * Since a {@link Parser} is synchronous, a schema that validates asynchronously fails with
+ * an issue; use {@link fromStandardSchemaAsync} for such schemas.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { z } from 'zod';
+ *
+ * const user = fromStandardSchema(z.object({ name: z.string() }));
+ *
+ * assert.deepEqual(user({ name: 'alice' }), Ok({ name: 'alice' }));
+ * assert.equal(user({}).isErrAnd((e) => e.issues[0].path[0] === 'name'), true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromStandardSchema =
+  <S extends StandardSchemaV1>(schema: S) =>
+  (input: unknown): Result<StandardSchemaV1.InferOutput<S>, ParseError> => {
+    const result = schema['~standard'].validate(input);
+    return isPromiseLike(result)
+      ? Err(
+          new ParseError([
+            {
+              path: [],
+              message:
+                'the schema validates asynchronously; use fromStandardSchemaAsync',
+            },
+          ]),
+        )
+      : toResult(result);
+  };
+
+/**
+ * Converts a [Standard Schema](https://standardschema.dev/), which may validate asynchronously,
+ * into a function returning an {@link AsyncResult}.
+ *
+ * An error thrown by the schema, synchronously or not, rejects the {@link AsyncResult}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { z } from 'zod';
+ *
+ * const username = fromStandardSchemaAsync(z.string().refine(async (s) => !(await exists(s))));
+ *
+ * assert.deepEqual(await username('alice'), Ok('alice'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromStandardSchemaAsync =
+  <S extends StandardSchemaV1>(schema: S) =>
+  (
+    input: unknown,
+  ): AsyncResult<StandardSchemaV1.InferOutput<S>, ParseError> => {
+    try {
+      return new AsyncResult(
+        Promise.resolve(schema['~standard'].validate(input)).then(toResult),
+      );
+    } catch (error) {
+      return new AsyncResult(Promise.reject(error));
+    }
+  };
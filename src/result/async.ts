@@ -0,0 +1,659 @@
+import { Err, Ok, Result } from '.';
+import { AsyncOption, Option } from '../option';
+import { Awaitable } from '../util';
+import { From } from '../convert';
+import { hasTag, TagOf } from '../error';
+import { ErrValue, OkValue } from './impl';
+
+/**
+ * A {@link Result} that will be available in the future.
+ *
+ * `AsyncResult<T, E>` wraps a `Promise<Result<T, E>>` and mirrors the methods of
+ * {@link <internal>!ResultImpl}, except that every callback may return either a plain value or a
+ * `Promise` of it. It is itself awaitable, so `await` turns it back into a plain {@link Result}.
+ *
+ * Errors thrown (or promises rejected) by callbacks are not converted to {@link Err};
+ * they reject the `AsyncResult` as they would reject a `Promise`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const fetchUser = async (id: number): Promise<Result<string, string>> =>
+ *   id === 1 ? Ok('alice') : Err('not found');
+ *
+ * const x = await Ok(1)
+ *   .toAsync()
+ *   .andThen(fetchUser)
+ *   .map(async (name) => name.toUpperCase());
+ * assert.deepEqual(x, Ok('ALICE'));
+ * ```
+ *
+ * This is not in Rust.
+ *
+ * @see {@link Result.fromPromise}
+ * @see {@link <internal>!ResultImpl.toAsync}
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+  private readonly promise: Promise<Result<T, E>>;
+
+  /**
+   * @hidden
+   */
+  constructor(promise: Awaitable<Result<T, E>>) {
+    this.promise = Promise.resolve(promise);
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the underlying `Promise`.
+   *
+   * This makes `AsyncResult` awaitable.
+   */
+  then<TResult1 = Result<T, E>, TResult2 = never>(
+    onfulfilled?:
+      | ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Resolves to `true` if the result is {@link Ok}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Ok(-3).toAsync().isOk(), true);
+   * assert.equal(await Err('Some error message').toAsync().isOk(), false);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.isOk}
+   */
+  isOk(): Promise<boolean> {
+    return this.promise.then((res) => res.isOk());
+  }
+
+  /**
+   * Resolves to `true` if the result is {@link Err}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Ok(-3).toAsync().isErr(), false);
+   * assert.equal(await Err('Some error message').toAsync().isErr(), true);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.isErr}
+   */
+  isErr(): Promise<boolean> {
+    return this.promise.then((res) => res.isErr());
+  }
+
+  /**
+   * Converts from `AsyncResult<T, E>` to {@link AsyncOption `AsyncOption<T>`},
+   * discarding the error, if any.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Ok(2).toAsync().ok(), Some(2));
+   * assert.deepEqual(await Err('Nothing here').toAsync().ok(), None);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.ok}
+   */
+  ok(): AsyncOption<T> {
+    return new AsyncOption(this.promise.then((res) => res.ok()));
+  }
+
+  /**
+   * Converts from `AsyncResult<T, E>` to {@link AsyncOption `AsyncOption<E>`},
+   * discarding the success value, if any.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Ok(2).toAsync().err(), None);
+   * assert.deepEqual(await Err('Nothing here').toAsync().err(), Some('Nothing here'));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.err}
+   */
+  err(): AsyncOption<E> {
+    return new AsyncOption(this.promise.then((res) => res.err()));
+  }
+
+  /**
+   * Maps an `AsyncResult<T, E>` to `AsyncResult<U, E>` by applying a function to a
+   * contained {@link Ok} value, leaving an {@link Err} value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const double = async (i: number): Promise<number> => i * 2;
+   *
+   * assert.deepEqual(await Ok(3).toAsync().map(double), Ok(6));
+   * assert.deepEqual(await (Err('nan').toAsync() as AsyncResult<number, string>).map(double), Err('nan'));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.map}
+   */
+  map<U>(op: (arg: T) => Awaitable<U>): AsyncResult<U, E> {
+    return new AsyncResult(
+      this.promise.then(async (res) =>
+        res.isOk() ? Ok(await op(res.value)) : res,
+      ),
+    );
+  }
+
+  /**
+   * Resolves to the provided def (if {@link Err}), or
+   * applies a function to the contained value (if {@link Ok}).
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = Ok('foo').toAsync();
+   * assert.equal(await x.mapOr(42, async (v) => v.length), 3);
+   *
+   * const y = Err('bar').toAsync() as AsyncResult<string, string>;
+   * assert.equal(await y.mapOr(42, async (v) => v.length), 42);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.mapOr}
+   */
+  mapOr<U>(def: U, f: (arg: T) => Awaitable<U>): Promise<U> {
+    return this.promise.then((res) => (res.isOk() ? f(res.value) : def));
+  }
+
+  /**
+   * Maps an `AsyncResult<T, E>` to `U` by applying fallback function `def` to
+   * a contained {@link Err} value, or function `f` to a contained {@link Ok} value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const k = 21;
+   *
+   * const x = Ok('foo').toAsync() as AsyncResult<string, string>;
+   * assert.equal(await x.mapOrElse(async () => k * 2, (v) => v.length), 3);
+   *
+   * const y = Err('bar').toAsync() as AsyncResult<string, string>;
+   * assert.equal(await y.mapOrElse(async () => k * 2, (v) => v.length), 42);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.mapOrElse}
+   */
+  mapOrElse<U>(
+    def: (arg: E) => Awaitable<U>,
+    f: (arg: T) => Awaitable<U>,
+  ): Promise<U> {
+    return this.promise.then((res) =>
+      res.isOk() ? f(res.value) : def(res.value),
+    );
+  }
+
+  /**
+   * Maps an `AsyncResult<T, E>` to `AsyncResult<T, F>` by applying a function to a
+   * contained {@link Err} value, leaving an {@link Ok} value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const stringify = async (x: number): Promise<string> => `error code: ${x}`;
+   *
+   * assert.deepEqual(await (Ok(2).toAsync() as AsyncResult<number, number>).mapErr(stringify), Ok(2));
+   * assert.deepEqual(await Err(13).toAsync().mapErr(stringify), Err('error code: 13'));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.mapErr}
+   */
+  mapErr<F>(op: (arg: E) => Awaitable<F>): AsyncResult<T, F> {
+    return new AsyncResult(
+      this.promise.then(async (res) =>
+        res.isOk() ? res : Err(await op(res.value)),
+      ),
+    );
+  }
+
+  /**
+   * Calls `f` with the contained value if the result is {@link Ok}, waits for it if it
+   * returns a `Promise`, and resolves to the result unchanged.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const saved: number[] = [];
+   * const save = async (v: number): Promise<void> => {
+   *   saved.push(v);
+   * };
+   *
+   * const x = await Ok(2).toAsync().tap(save).map((v) => v * 2);
+   * assert.deepEqual(x, Ok(4));
+   * assert.deepEqual(saved, [2]);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.inspect}
+   */
+  tap(f: (arg: T) => Awaitable<unknown>): AsyncResult<T, E> {
+    return new AsyncResult(
+      this.promise.then(async (res) => {
+        if (res.isOk()) {
+          await f(res.value);
+        }
+        return res;
+      }),
+    );
+  }
+
+  /**
+   * Calls `f` with the contained error if the result is {@link Err}, waits for it if it
+   * returns a `Promise`, and resolves to the result unchanged.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const reported: string[] = [];
+   * const report = async (e: string): Promise<void> => {
+   *   reported.push(e);
+   * };
+   *
+   * const x = await Err('not found').toAsync().tapErr(report);
+   * assert.deepEqual(x, Err('not found'));
+   * assert.deepEqual(reported, ['not found']);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.inspectErr}
+   */
+  tapErr(f: (arg: E) => Awaitable<unknown>): AsyncResult<T, E> {
+    return new AsyncResult(
+      this.promise.then(async (res) => {
+        if (res.isErr()) {
+          await f(res.value);
+        }
+        return res;
+      }),
+    );
+  }
+
+  /**
+   * Converts the contained {@link Err} value with `target.from`, leaving an {@link Ok} value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * class AppError extends Error {
+   *   static from(e: Error): AppError {
+   *     return new AppError(e.message, { cause: e });
+   *   }
+   * }
+   *
+   * const x = Result.fromPromise(Promise.reject(new TypeError('boom')), (e) => e as TypeError);
+   * const y: Result<never, AppError> = await x.convertErr(AppError);
+   * assert.equal(y.isErrAnd((e) => e.cause instanceof TypeError), true);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.convertErr}
+   */
+  convertErr<F>(target: From<E, F>): AsyncResult<T, F> {
+    return new AsyncResult(this.promise.then((res) => res.convertErr(target)));
+  }
+
+  /**
+   * Resolves to `res` if the result is {@link Ok}, otherwise to the {@link Err} value of `this`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = Ok(2).toAsync() as AsyncResult<number, string>;
+   * assert.deepEqual(await x.and(Err('late error')), Err('late error'));
+   *
+   * const y = Err('early error').toAsync() as AsyncResult<number, string>;
+   * assert.deepEqual(await y.and(Promise.resolve(Ok('foo'))), Err('early error'));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.and}
+   */
+  and<U>(res: Awaitable<Result<U, E>>): AsyncResult<U, E> {
+    return new AsyncResult(
+      this.promise.then((self) => (self.isOk() ? res : self)),
+    );
+  }
+
+  /**
+   * Calls `op` if the result is {@link Ok}, otherwise resolves to the {@link Err} value of `this`.
+   *
+   * `op` may return a {@link Result}, a `Promise` of a {@link Result} or another `AsyncResult`,
+   * and its error type is added to the error type of the returned `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const evenThenToString = async (x: number): Promise<Result<string, string>> =>
+   *   x % 2 === 0 ? Ok(x.toString()) : Err(`${x} is not even`);
+   *
+   * assert.deepEqual(await Ok(2).toAsync().andThen(evenThenToString), Ok('2'));
+   * assert.deepEqual(await Ok(5).toAsync().andThen(evenThenToString), Err('5 is not even'));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.andThen}
+   */
+  andThen<U, F = never>(
+    op: (arg: T) => Awaitable<Result<U, F>>,
+  ): AsyncResult<U, E | F> {
+    return new AsyncResult<U, E | F>(
+      this.promise.then((res) => (res.isOk() ? op(res.value) : res)),
+    );
+  }
+
+  /**
+   * Resolves to `res` if the result is {@link Err}, otherwise to the {@link Ok} value of `this`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = Ok(2).toAsync() as AsyncResult<number, string>;
+   * assert.deepEqual(await x.or(Err('late error')), Ok(2));
+   *
+   * const y = Err('early error').toAsync() as AsyncResult<number, string>;
+   * assert.deepEqual(await y.or(Promise.resolve(Ok(2))), Ok(2));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.or}
+   */
+  or<F>(res: Awaitable<Result<T, F>>): AsyncResult<T, F> {
+    return new AsyncResult(
+      this.promise.then((self) => (self.isOk() ? self : res)),
+    );
+  }
+
+  /**
+   * Calls `op` if the result is {@link Err}, otherwise resolves to the {@link Ok} value of `this`.
+   *
+   * `op` may return a {@link Result}, a `Promise` of a {@link Result} or another `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const sq = async (x: number): Promise<Result<number, number>> => Ok(x * x);
+   * const err = async (x: number): Promise<Result<number, number>> => Err(x);
+   *
+   * const x = Ok(2).toAsync() as AsyncResult<number, number>;
+   * assert.deepEqual(await x.orElse(sq).orElse(sq), Ok(2));
+   * assert.deepEqual(await Err(3).toAsync().orElse(sq).orElse(err), Ok(9));
+   * assert.deepEqual(await Err(3).toAsync().orElse(err).orElse(err), Err(3));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.orElse}
+   */
+  orElse<F>(op: (arg: E) => Awaitable<Result<T, F>>): AsyncResult<T, F> {
+    return new AsyncResult(
+      this.promise.then((res) => (res.isOk() ? res : op(res.value))),
+    );
+  }
+
+  /**
+   * Calls `handler` if the result is an {@link Err} of a {@link TaggedError} with the tag `tag`,
+   * and removes that tag from the error type, otherwise resolves to `this`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const NotFound = defineError('NotFound');
+   * type NotFound = InstanceType<typeof NotFound>;
+   *
+   * const x = Err(new NotFound()).toAsync() as AsyncResult<string, NotFound>;
+   * const y: Result<string, never> = await x.catchTag('NotFound', async () => Ok('guest'));
+   * assert.deepEqual(y, Ok('guest'));
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.catchTag}
+   */
+  catchTag<K extends TagOf<E>, U, F = never>(
+    tag: K,
+    handler: (
+      error: Extract<E, { readonly _tag: K }>,
+    ) => Awaitable<Result<U, F>>,
+  ): AsyncResult<T | U, Exclude<E, { readonly _tag: K }> | F> {
+    return new AsyncResult<T | U, Exclude<E, { readonly _tag: K }> | F>(
+      this.promise.then((res) =>
+        res.isErr() && hasTag(res.value, tag)
+          ? handler(res.value as Extract<E, { readonly _tag: K }>)
+          : (res as Result<T, Exclude<E, { readonly _tag: K }>>),
+      ),
+    );
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value or a provided default.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Ok(9).toAsync().unwrapOr(2), 9);
+   * assert.equal(await (Err('error').toAsync() as AsyncResult<number, string>).unwrapOr(2), 2);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.unwrapOr}
+   */
+  unwrapOr(def: T): Promise<T> {
+    return this.promise.then((res) => res.unwrapOr(def));
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value or computes it from a closure.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const count = async (x: string): Promise<number> => x.length;
+   *
+   * assert.equal(await (Ok(2).toAsync() as AsyncResult<number, string>).unwrapOrElse(count), 2);
+   * assert.equal(await Err('foo').toAsync().unwrapOrElse(count), 3);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.unwrapOrElse}
+   */
+  unwrapOrElse(op: (arg: E) => Awaitable<T>): Promise<T> {
+    return this.promise.then((res) => (res.isOk() ? res.value : op(res.value)));
+  }
+
+  /**
+   * Transposes an `AsyncResult` of an {@link Option} into an {@link AsyncOption} of a {@link Result}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual(await Ok(Some(5)).toAsync().transpose(), Some(Ok(5)));
+   * assert.deepEqual(await Ok(None).toAsync().transpose(), None);
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.transpose}
+   */
+  transpose<U>(this: AsyncResult<Option<U>, E>): AsyncOption<Result<U, E>> {
+    return new AsyncOption(this.promise.then((res) => res.transpose()));
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value, or rejects with the contained {@link Err} value
+   * converted by `mapErr` if it is given.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Ok(2).toAsync().toPromise(), 2);
+   * await assert.rejects(Err('boom').toAsync().toPromise((e) => new Error(e)), { message: 'boom' });
+   * ```
+   *
+   * @see {@link <internal>!ResultImpl.toPromise}
+   */
+  toPromise(mapErr?: (error: E) => unknown): Promise<T> {
+    return this.promise.then((res) => res.toPromise(mapErr));
+  }
+
+  /**
+   * Returns an async iterator that yields the contained {@link Ok} value, if any,
+   * so that an `AsyncResult` can be used with `for await...of`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * for await (const x of Ok(2).toAsync()) {
+   *   assert.equal(x, 2);
+   * }
+   * ```
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, unknown> {
+    const res = await this.promise;
+    if (res.isOk()) {
+      yield res.value;
+    }
+  }
+
+  /**
+   * Returns an async iterator that yields the result if it is {@link Err}, and
+   * otherwise returns the contained {@link Ok} value without yielding.
+   *
+   * This lets `yield*` unwrap an `AsyncResult` inside {@link Result.genAsync}.
+   */
+  async *try(): AsyncGenerator<Err<E>, T, unknown> {
+    const res = await this.promise;
+    if (res.isErr()) {
+      yield res;
+    }
+    // NOTE: `genAsync` never resumes a generator after an Err is yielded.
+    return (res as Ok<T>).value;
+  }
+}
+
+/**
+ * Converts a `Promise<T>` into an {@link AsyncResult `AsyncResult<T, E>`},
+ * mapping its fulfillment value to {@link Ok} and its rejection reason to {@link Err}.
+ *
+ * The rejection reason is passed through `mapErr` if given.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x = Result.fromPromise(Promise.resolve(1));
+ * assert.deepEqual(await x, Ok(1));
+ *
+ * const y = Result.fromPromise(Promise.reject(new Error('boom')), (e) => String(e));
+ * assert.deepEqual(await y, Err('Error: boom'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromPromise = <T, E = unknown>(
+  promise: PromiseLike<T>,
+  mapErr?: (reason: unknown) => E,
+): AsyncResult<T, E> => {
+  return new AsyncResult(
+    Promise.resolve(promise).then(
+      (value): Result<T, E> => Ok(value),
+      (reason) => Err(mapErr ? mapErr(reason) : (reason as E)),
+    ),
+  );
+};
+
+/**
+ * Calls `f` and returns an {@link AsyncResult} that is {@link Ok} with the fulfillment value
+ * of the returned `Promise`, or {@link Err} with its rejection reason.
+ *
+ * An error thrown synchronously by `f` is also returned as {@link Err}.
+ * The error is passed through `mapError` if given.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x = Result.tryCatchAsync(async () => 1);
+ * assert.deepEqual(await x, Ok(1));
+ *
+ * const y = Result.tryCatchAsync(
+ *   () => fs.promises.readFile('not-found.txt'),
+ *   () => 'not found',
+ * );
+ * assert.deepEqual(await y, Err('not found'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const tryCatchAsync = <T, E = unknown>(
+  f: () => PromiseLike<T>,
+  mapError?: (error: unknown) => E,
+): AsyncResult<T, E> => {
+  return fromPromise(new Promise<T>((resolve) => resolve(f())), mapError);
+};
+
+/**
+ * Wraps an async function that may reject (or throw) into a function that returns
+ * an {@link AsyncResult}.
+ *
+ * The error is passed through `mapError` if given.
+ * The returned function passes its `this` on to `f`, so it can wrap a method.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const readFile = Result.fromThrowableAsync(
+ *   (path: string) => fs.promises.readFile(path, 'utf8'),
+ *   () => 'not found',
+ * );
+ *
+ * assert.deepEqual(await readFile('not-found.txt'), Err('not found'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromThrowableAsync = <This, A extends unknown[], T, E = unknown>(
+  f: (this: This, ...args: A) => PromiseLike<T>,
+  mapError?: (error: unknown) => E,
+): ((this: This, ...args: A) => AsyncResult<T, E>) => {
+  return function (this: This, ...args) {
+    return tryCatchAsync(() => f.apply(this, args), mapError);
+  };
+};
+
+/**
+ * Runs an async generator function in which `yield* x.try()` unwraps a {@link Result} or an
+ * {@link AsyncResult}, like the `?` operator in Rust.
+ *
+ * See {@link Result.gen} for details. A `Promise` of a {@link Result} can be unwrapped with
+ * `yield* (await promise).try()`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const fetchUser = (id: number): AsyncResult<string, 'not found'> =>
+ *   (id === 1 ? Ok('alice') : Err('not found' as const)).toAsync();
+ * const fetchAge = async (name: string): Promise<Result<number, 'private'>> =>
+ *   name === 'alice' ? Ok(20) : Err('private');
+ *
+ * const x = await Result.genAsync(async function* () {
+ *   const name = yield* fetchUser(1).try();
+ *   const age = yield* (await fetchAge(name)).try();
+ *   return Ok(`${name} (${age})`);
+ * });
+ * assert.deepEqual(x, Ok('alice (20)'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const genAsync = <
+  Y extends Err<unknown>,
+  R extends Result<unknown, unknown>,
+>(
+  f: () => AsyncGenerator<Y, R, unknown>,
+): AsyncResult<OkValue<R>, ErrValue<Y | R>> => {
+  return new AsyncResult(
+    (async () => {
+      const iterator = f();
+      const next = await iterator.next();
+      if (!next.done) {
+        // NOTE: Run `finally` blocks of the generator.
+        await iterator.return(next.value as never);
+      }
+      return next.value as Result<OkValue<R>, ErrValue<Y | R>>;
+    })(),
+  );
+};
@@ -1,3 +1,5 @@
+import { variant } from '../util';
+
 const ErrType = Symbol('Err');
 
 export class Err<E> {
@@ -5,6 +7,15 @@ export class Err<E> {
 
   constructor(readonly value: E) {}
 
+  /**
+   * The name of the variant, used by {@link isErr} and the other guards.
+   *
+   * @hidden
+   */
+  get [variant](): 'Err' {
+    return 'Err';
+  }
+
   /**
    * Returns `true` if the result is {@link Ok}.
    *
@@ -42,4 +53,34 @@ export class Err<E> {
   isErr(): this is Err<E> {
     return true;
   }
+
+  /**
+   * Returns an iterator that yields nothing, so that a result can be used with
+   * `for...of` and spread like a collection of zero or one item.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual([...Err('error')], []);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#impl-IntoIterator-for-Result%3CT,+E%3E)
+   */
+  [Symbol.iterator](): IterableIterator<never> {
+    return [][Symbol.iterator]();
+  }
+
+  /**
+   * Returns an iterator that yields `this`.
+   *
+   * This lets `yield*` short-circuit {@link Result.gen} on an error.
+   *
+   * This is not in Rust.
+   */
+  *try(): Generator<this, never, unknown> {
+    yield this;
+    // NOTE: `gen` never resumes a generator after an Err is yielded.
+    /* istanbul ignore next */
+    return undefined as never;
+  }
 }
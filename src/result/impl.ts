@@ -1,5 +1,30 @@
 import { Err, Ok, Result } from '.';
 import { None, Option, Some } from '../option';
+import {
+  defaultCompare,
+  defaultEquals,
+  defaultHash,
+  hasKeys,
+  hashCombine,
+  isAsyncIterable,
+  isRecord,
+} from '../util';
+import { JSONFormat, ResultJSON } from '../json';
+import { AsyncResult } from './async';
+import { Default } from '../default';
+import { From } from '../convert';
+import { hasTag, TagOf } from '../error';
+import { Semigroup } from '../semigroup';
+
+/**
+ * @hidden
+ */
+export type OkValue<R> = R extends Ok<infer T> ? T : never;
+
+/**
+ * @hidden
+ */
+export type ErrValue<R> = R extends Err<infer E> ? E : never;
 
 export class ResultImpl {
   /**
@@ -25,7 +50,7 @@ export class ResultImpl {
    * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.is_ok)
    */
   isOk<T, E>(this: Result<T, E>): this is Ok<T> {
-    // NOTE: This method is not called because it is proxied.
+    // NOTE: This method is not called because the variant classes shadow it on their prototypes.
     /* istanbul ignore next */
     return this.isOk();
   }
@@ -47,11 +72,111 @@ export class ResultImpl {
    * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.is_err)
    */
   isErr<T, E>(this: Result<T, E>): this is Err<E> {
-    // NOTE: This method is not called because it is proxied.
+    // NOTE: This method is not called because the variant classes shadow it on their prototypes.
     /* istanbul ignore next */
     return this.isErr();
   }
 
+  /**
+   * Returns `true` if the result is {@link Ok} and the value inside of it matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, string> = Ok(2);
+   * assert.equal(x.isOkAnd((v) => v > 1), true);
+   *
+   * const y: Result<number, string> = Ok(0);
+   * assert.equal(y.isOkAnd((v) => v > 1), false);
+   *
+   * const z: Result<number, string> = Err('hey');
+   * assert.equal(z.isOkAnd((v) => v > 1), false);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.is_ok_and)
+   */
+  isOkAnd<T, E>(this: Result<T, E>, f: (arg: T) => boolean): boolean {
+    return this.isOk() && f(this.value);
+  }
+
+  /**
+   * Returns `true` if the result is {@link Err} and the value inside of it matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, Error> = Err(new RangeError('out of range'));
+   * assert.equal(x.isErrAnd((e) => e instanceof RangeError), true);
+   *
+   * const y: Result<number, Error> = Err(new TypeError('wrong type'));
+   * assert.equal(y.isErrAnd((e) => e instanceof RangeError), false);
+   *
+   * const z: Result<number, Error> = Ok(123);
+   * assert.equal(z.isErrAnd((e) => e instanceof RangeError), false);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.is_err_and)
+   */
+  isErrAnd<T, E>(this: Result<T, E>, f: (arg: E) => boolean): boolean {
+    return this.isErr() && f(this.value);
+  }
+
+  /**
+   * Returns `true` if the result is an {@link Ok} value containing the given value.
+   *
+   * The values are compared with `eq`, which defaults to the same comparison as {@link equals}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, string> = Ok(2);
+   * assert.equal(x.contains(2), true);
+   *
+   * const y: Result<number, string> = Ok(3);
+   * assert.equal(y.contains(2), false);
+   *
+   * const z: Result<number, string> = Err('Some error message');
+   * assert.equal(z.contains(2), false);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/1.40.0/std/result/enum.Result.html#method.contains)
+   */
+  contains<T, E>(
+    this: Result<T, E>,
+    x: T,
+    eq: (a: T, b: T) => boolean = defaultEquals,
+  ): boolean {
+    return this.isOk() && eq(this.value, x);
+  }
+
+  /**
+   * Returns `true` if the result is an {@link Err} value containing the given value.
+   *
+   * The values are compared with `eq`, which defaults to the same comparison as {@link equals}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, string> = Ok(2);
+   * assert.equal(x.containsErr('Some error message'), false);
+   *
+   * const y: Result<number, string> = Err('Some error message');
+   * assert.equal(y.containsErr('Some error message'), true);
+   *
+   * const z: Result<number, string> = Err('Some other error message');
+   * assert.equal(z.containsErr('Some error message'), false);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/1.40.0/std/result/enum.Result.html#method.contains_err)
+   */
+  containsErr<T, E>(
+    this: Result<T, E>,
+    e: E,
+    eq: (a: E, b: E) => boolean = defaultEquals,
+  ): boolean {
+    return this.isErr() && eq(this.value, e);
+  }
+
   /**
    * Converts from `Result<T, E>` to {@link Option `Option<T>`}.
    *
@@ -216,6 +341,101 @@ export class ResultImpl {
     return this.isOk() ? this : Err(op(this.value));
   }
 
+  /**
+   * Calls `f` with the contained value if the result is {@link Ok}, and returns the result
+   * unchanged, so that side effects such as logging do not break a chain.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const logged: number[] = [];
+   * const x = (Ok(4) as Result<number, string>)
+   *   .inspect((v) => logged.push(v))
+   *   .map((v) => v * 2);
+   * assert.deepEqual(x, Ok(8));
+   * assert.deepEqual(logged, [4]);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.inspect)
+   */
+  inspect<T>(this: Ok<T>, f: (arg: T) => unknown): Ok<T>;
+  inspect<E>(this: Err<E>, f: (arg: never) => unknown): Err<E>;
+  inspect<T, E>(this: Result<T, E>, f: (arg: T) => unknown): Result<T, E>;
+  inspect<T, E>(this: Result<T, E>, f: (arg: never) => unknown): Result<T, E> {
+    if (this.isOk()) {
+      (f as (arg: T) => unknown)(this.value);
+    }
+    return this;
+  }
+
+  /**
+   * Calls `f` with the contained error if the result is {@link Err}, and returns the result
+   * unchanged, so that side effects such as logging do not break a chain.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const logged: string[] = [];
+   * const x = (Err('not found') as Result<number, string>)
+   *   .inspectErr((e) => logged.push(e))
+   *   .map((v) => v * 2);
+   * assert.deepEqual(x, Err('not found'));
+   * assert.deepEqual(logged, ['not found']);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.inspect_err)
+   */
+  inspectErr<T>(this: Ok<T>, f: (arg: never) => unknown): Ok<T>;
+  inspectErr<E>(this: Err<E>, f: (arg: E) => unknown): Err<E>;
+  inspectErr<T, E>(this: Result<T, E>, f: (arg: E) => unknown): Result<T, E>;
+  inspectErr<T, E>(
+    this: Result<T, E>,
+    f: (arg: never) => unknown,
+  ): Result<T, E> {
+    if (this.isErr()) {
+      (f as (arg: E) => unknown)(this.value);
+    }
+    return this;
+  }
+
+  /**
+   * Converts the contained {@link Err} value with `target.from`, leaving an {@link Ok} value untouched.
+   *
+   * This mirrors the error conversion that the `?` operator does with `From` in Rust:
+   * `target` is typically an error class with a static `from` method (see {@link From}),
+   * so that errors of lower-level functions are wrapped in the error type of the caller.
+   *
+   * # Examples
+   *
+   * ```ts
+   * class ConfigError extends Error {
+   *   static from(e: SyntaxError | RangeError): ConfigError {
+   *     return new ConfigError(`invalid config: ${e.message}`, { cause: e });
+   *   }
+   * }
+   *
+   * const parse = (s: string): Result<unknown, SyntaxError> =>
+   *   Result.tryCatch(() => JSON.parse(s), (e) => e as SyntaxError);
+   * const port = (n: number): Result<number, RangeError> =>
+   *   n > 0 && n < 65536 ? Ok(n) : Err(new RangeError(`${n} is not a port`));
+   *
+   * const load = (s: string): Result<number, ConfigError> =>
+   *   Result.gen(function* () {
+   *     const json = yield* parse(s).convertErr(ConfigError).try();
+   *     return port(Number(json)).convertErr(ConfigError);
+   *   });
+   *
+   * assert.deepEqual(load('8080'), Ok(8080));
+   * assert.equal(load('0').isErrAnd((e) => e.cause instanceof RangeError), true);
+   * assert.equal(load('{').isErrAnd((e) => e.cause instanceof SyntaxError), true);
+   * ```
+   *
+   * This is not in Rust.
+   */
+  convertErr<T, E, F>(this: Result<T, E>, target: From<E, F>): Result<T, F> {
+    return this.isOk() ? this : Err(target.from(this.value));
+  }
+
   /**
    * Returns `res` if the result is {@link Ok}, otherwise returns the {@link Err} value of `this`.
    *
@@ -254,6 +474,9 @@ export class ResultImpl {
    *
    * This function can be used for control flow based on `Result` values.
    *
+   * `op` may return a different error type `F`, and the error type of the returned result is
+   * widened to `E | F`, so that steps with different error types can be chained without `mapErr`.
+   *
    * # Examples
    *
    * ```ts
@@ -269,12 +492,24 @@ export class ResultImpl {
    * );
    * ```
    *
+   * Widening the error type:
+   *
+   * ```ts
+   * const parse = (s: string): Result<number, SyntaxError> =>
+   *   Number.isNaN(Number(s)) ? Err(new SyntaxError(s)) : Ok(Number(s));
+   * const positive = (n: number): Result<number, RangeError> =>
+   *   n > 0 ? Ok(n) : Err(new RangeError(`${n}`));
+   *
+   * const x: Result<number, SyntaxError | RangeError> = parse('-1').andThen(positive);
+   * assert.equal(x.isErr() && x.value instanceof RangeError, true);
+   * ```
+   *
    * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.and_then)
    */
-  andThen<T, E, U>(
+  andThen<T, E, U, F = never>(
     this: Result<T, E>,
-    op: (arg: T) => Result<U, E>,
-  ): Result<U, E> {
+    op: (arg: T) => Result<U, F>,
+  ): Result<U, E | F> {
     return this.isOk() ? op(this.value) : this;
   }
 
@@ -342,6 +577,42 @@ export class ResultImpl {
     return this.isOk() ? this : op(this.value);
   }
 
+  /**
+   * Calls `handler` if the result is an {@link Err} of a {@link TaggedError} with the tag `tag`,
+   * and removes that tag from the error type, otherwise returns `this`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const NotFound = defineError('NotFound', (f: { id: number }) => `${f.id} not found`);
+   * const Forbidden = defineError('Forbidden');
+   * type NotFound = InstanceType<typeof NotFound>;
+   * type Forbidden = InstanceType<typeof Forbidden>;
+   *
+   * const find = (id: number): Result<string, NotFound | Forbidden> =>
+   *   id === 0 ? Err(new Forbidden()) : Err(new NotFound({ id }));
+   *
+   * const x: Result<string, Forbidden> = find(1).catchTag('NotFound', (e) =>
+   *   Ok(`guest ${e.id}`),
+   * );
+   * assert.deepEqual(x, Ok('guest 1'));
+   *
+   * const y = find(0).catchTag('NotFound', (e) => Ok(`guest ${e.id}`));
+   * assert.equal(y.isErrAnd((e) => e._tag === 'Forbidden'), true);
+   * ```
+   *
+   * This is not in Rust.
+   */
+  catchTag<T, E, K extends string, U, F = never>(
+    this: Result<T, E>,
+    tag: K & TagOf<E>,
+    handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>,
+  ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+    return this.isErr() && hasTag(this.value, tag)
+      ? handler(this.value as Extract<E, { readonly _tag: K }>)
+      : (this as Result<T, Exclude<E, { readonly _tag: K }>>);
+  }
+
   /**
    * Returns the contained {@link Ok} value or a provided default.
    *
@@ -389,6 +660,63 @@ export class ResultImpl {
     return this.isOk() ? this.value : op(this.value);
   }
 
+  /**
+   * Returns the contained {@link Ok} value or the default of `T` given by `provider`.
+   *
+   * See {@link Default} for the providers of built-in types.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const parse = (s: string): Result<number, string> =>
+   *   Number.isNaN(Number(s)) ? Err(`${s} is not a number`) : Ok(Number(s));
+   *
+   * assert.equal(parse('1909').unwrapOrDefault(Default.number), 1909);
+   * assert.equal(parse('1900blarg').unwrapOrDefault(Default.number), 0);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.unwrap_or_default)
+   */
+  unwrapOrDefault<T, E>(this: Result<T, E>, provider: Default<T>): T {
+    return this.isOk() ? this.value : provider.default();
+  }
+
+  /**
+   * Returns the contained {@link Ok} value of a result that can never be an {@link Err}.
+   *
+   * Unlike `unwrap`, this never throws: it only type checks if the error type is `never`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const onlyGood = (): Result<string, never> => Ok('this is fine');
+   * assert.equal(onlyGood().intoOk(), 'this is fine');
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.into_ok)
+   */
+  intoOk<T>(this: Result<T, never>): T {
+    return this.value;
+  }
+
+  /**
+   * Returns the contained {@link Err} value of a result that can never be an {@link Ok}.
+   *
+   * Unlike `unwrapErr`, this never throws: it only type checks if the value type is `never`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const onlyBad = (): Result<never, string> => Err('Oops, it failed');
+   * assert.equal(onlyBad().intoErr(), 'Oops, it failed');
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.into_err)
+   */
+  intoErr<E>(this: Result<never, E>): E {
+    return this.value;
+  }
+
   /**
    * Transposes a `Result` of an `Option` into an `Option` of a `Result`.
    *
@@ -420,4 +748,782 @@ export class ResultImpl {
     }
     return Some(Err(this.value));
   }
+
+  /**
+   * Converts from `Result<Result<T, F>, E>` to `Result<T, E | F>`.
+   *
+   * Flattening only removes one level of nesting at a time.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<Result<string, number>, number> = Ok(Ok('hello'));
+   * assert.deepEqual(x.flatten(), Ok('hello'));
+   *
+   * const y: Result<Result<string, number>, number> = Ok(Err(6));
+   * assert.deepEqual(y.flatten(), Err(6));
+   *
+   * const z: Result<Result<string, number>, number> = Err(6);
+   * assert.deepEqual(z.flatten(), Err(6));
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.flatten)
+   */
+  flatten<T, E, F>(this: Result<Result<T, F>, E>): Result<T, E | F> {
+    return this.isOk() ? this.value : this;
+  }
+
+  /**
+   * Returns `true` if both results are {@link Ok} and `eq` returns `true` for the contained
+   * values, or both are {@link Err} and `eqErr` returns `true` for the contained errors.
+   *
+   * By default, the contained values are compared with their `equals` method if they
+   * have one (so nested options and results are compared structurally), and with `===`
+   * otherwise, except that `NaN` equals `NaN`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, string> = Ok(2);
+   * assert.equal(x.equals(Ok(2)), true);
+   * assert.equal(x.equals(Err('2')), false);
+   * assert.equal(Err('e').equals(Err('e')), true);
+   *
+   * const y: Result<number, Error> = Err(new Error('boom'));
+   * assert.equal(
+   *   y.equals(Err(new Error('boom')), undefined, (a, b) => a.message === b.message),
+   *   true,
+   * );
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/cmp/trait.PartialEq.html#tymethod.eq)
+   */
+  equals<T, E>(
+    this: Result<T, E>,
+    other: Result<T, E>,
+    eq: (a: T, b: T) => boolean = defaultEquals,
+    eqErr: (a: E, b: E) => boolean = defaultEquals,
+  ): boolean {
+    if (this.isOk()) {
+      return other.isOk() && eq(this.value, other.value);
+    }
+    return other.isErr() && eqErr(this.value, other.value);
+  }
+
+  /**
+   * Returns a negative number, zero or a positive number if the result is less than,
+   * equal to or greater than `other`, so that it can be used with `Array.prototype.sort`.
+   *
+   * {@link Ok} is less than any {@link Err}, two {@link Ok} values are ordered by `cmp`
+   * and two {@link Err} values by `cmpErr`. By default, the contained values are compared
+   * with their `compare` method if they have one, and with `<` and `>` otherwise.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, string> = Ok(10);
+   * assert.equal(x.compare(Err('a')), -1);
+   * assert.equal(x.compare(Ok(2)), 1);
+   *
+   * const xs: Result<number, string>[] = [Err('b'), Ok(2), Err('a'), Ok(1)];
+   * assert.deepEqual(
+   *   xs.sort((a, b) => a.compare(b)),
+   *   [Ok(1), Ok(2), Err('a'), Err('b')],
+   * );
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#impl-Ord-for-Result%3CT,+E%3E)
+   */
+  compare<T, E>(
+    this: Result<T, E>,
+    other: Result<T, E>,
+    cmp: (a: T, b: T) => number = defaultCompare,
+    cmpErr: (a: E, b: E) => number = defaultCompare,
+  ): number {
+    if (this.isOk()) {
+      return other.isOk() ? cmp(this.value, other.value) : -1;
+    }
+    return other.isErr() ? cmpErr(this.value, other.value) : 1;
+  }
+
+  /**
+   * Returns a 32-bit hash of the result, which is the same for results that are
+   * {@link equals equal}, so that they can be used as keys of hash-based collections.
+   *
+   * By default, the contained value is hashed with its `hash` method if it has one,
+   * with its type and string form if it is a primitive, and by its identity otherwise.
+   * Pass `hash` and `hashErr` if the contained values are compared with a custom `eq`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(Ok(1).hash(), Ok(1).hash());
+   * assert.notEqual(Ok(1).hash(), Err(1).hash());
+   *
+   * const byMessage = (e: Error): number => Some(e.message).hash();
+   * const x: Result<number, Error> = Err(new Error('boom'));
+   * assert.equal(
+   *   x.hash(undefined, byMessage),
+   *   Err(new Error('boom')).hash(undefined, byMessage),
+   * );
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/hash/trait.Hash.html)
+   */
+  hash<T, E>(
+    this: Result<T, E>,
+    hash: (value: T) => number = defaultHash,
+    hashErr: (value: E) => number = defaultHash,
+  ): number {
+    return this.isOk()
+      ? hashCombine(0, hash(this.value))
+      : hashCombine(1, hashErr(this.value));
+  }
+
+  /**
+   * Returns an iterator over the possibly contained {@link Ok} value.
+   *
+   * The iterator yields one value if the result is {@link Ok}, otherwise none.
+   *
+   * The result itself is iterable in the same way, with `for...of` and spread.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x: Result<number, string> = Ok(7);
+   * assert.deepEqual([...x.iter()], [7]);
+   *
+   * const y: Result<number, string> = Err('nothing!');
+   * assert.deepEqual([...y.iter()], []);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.iter)
+   */
+  *iter<T, E>(this: Result<T, E>): IterableIterator<T> {
+    if (this.isOk()) {
+      yield this.value;
+    }
+  }
+
+  /**
+   * Returns the JSON representation of the result, which is used by `JSON.stringify`.
+   *
+   * {@link Ok `Ok(v)`} is represented as `{ "$type": "Ok", "value": v }`, and
+   * {@link Err `Err(e)`} as `{ "$type": "Err", "value": e }`.
+   * See {@link Result.fromJSON} and {@link jsonReviver} for the other way around.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(JSON.stringify(Ok(1)), '{"$type":"Ok","value":1}');
+   * assert.equal(JSON.stringify(Err('e')), '{"$type":"Err","value":"e"}');
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toJSON<T, E>(this: Result<T, E>): ResultJSON<T, E> {
+    return this.isOk()
+      ? { $type: 'Ok', value: this.value }
+      : { $type: 'Err', value: this.value };
+  }
+
+  /**
+   * Matches the result against the `Ok` and `Err` arms and returns
+   * the result of the arm that corresponds to the variant.
+   *
+   * Both arms are required, and the return type is the union of the arm return types.
+   * See {@link match} for guarded arms.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const describe = (x: Result<number, string>): number | string =>
+   *   x.match({
+   *     Ok: (v) => v * 2,
+   *     Err: (e) => `error: ${e}`,
+   *   });
+   *
+   * assert.equal(describe(Ok(2)), 4);
+   * assert.equal(describe(Err('oops')), 'error: oops');
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/keyword.match.html)
+   */
+  match<T, E, A, B>(
+    this: Result<T, E>,
+    arms: { Ok: (value: T) => A; Err: (error: E) => B },
+  ): A | B {
+    return this.isOk() ? arms.Ok(this.value) : arms.Err(this.value);
+  }
+
+  /**
+   * Converts `Result<T, E>` into an {@link AsyncResult `AsyncResult<T, E>`},
+   * whose methods accept callbacks returning a `Promise`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const x = await Ok(2)
+   *   .toAsync()
+   *   .map(async (v) => v * 2);
+   * assert.deepEqual(x, Ok(4));
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toAsync<T, E>(this: Result<T, E>): AsyncResult<T, E> {
+    return new AsyncResult(this);
+  }
+
+  /**
+   * Converts the result into a `Promise` that resolves to the contained {@link Ok} value,
+   * or rejects with the contained {@link Err} value.
+   *
+   * `mapErr` converts the error into the rejection reason, such as an `Error` wrapping it.
+   * If `mapErr` throws, the promise rejects with the thrown error.
+   * This is the inverse of {@link Result.fromPromise}.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.equal(await Ok(2).toPromise(), 2);
+   * await assert.rejects(Err('boom').toPromise(), (e) => e === 'boom');
+   * await assert.rejects(
+   *   Err('boom').toPromise((e) => new Error(e)),
+   *   { message: 'boom' },
+   * );
+   * ```
+   *
+   * This is not in Rust.
+   */
+  toPromise<T, E>(
+    this: Result<T, E>,
+    mapErr?: (error: E) => unknown,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (this.isOk()) {
+        resolve(this.value);
+      } else {
+        reject(mapErr ? mapErr(this.value) : this.value);
+      }
+    });
+  }
 }
+
+/**
+ * Calls `f` and returns its return value as {@link Ok}, or the thrown error as {@link Err}.
+ *
+ * The thrown error is passed through `mapError` if given.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x = Result.tryCatch(() => JSON.parse('{"a":1}'));
+ * assert.deepEqual(x, Ok({ a: 1 }));
+ *
+ * const y = Result.tryCatch(
+ *   () => JSON.parse('{'),
+ *   (e) => (e instanceof SyntaxError ? 'invalid json' : 'unknown'),
+ * );
+ * assert.deepEqual(y, Err('invalid json'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const tryCatch = <T, E = unknown>(
+  f: () => T,
+  mapError?: (error: unknown) => E,
+): Result<T, E> => {
+  try {
+    return Ok(f());
+  } catch (error) {
+    return Err(mapError ? mapError(error) : (error as E));
+  }
+};
+
+/**
+ * Wraps a function that may throw into a function that returns a {@link Result}.
+ *
+ * The thrown error is passed through `mapError` if given.
+ * The returned function passes its `this` on to `f`, so it can wrap a method.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const parse = Result.fromThrowable(JSON.parse, () => 'invalid json');
+ *
+ * assert.deepEqual(parse('[1]'), Ok([1]));
+ * assert.deepEqual(parse('['), Err('invalid json'));
+ *
+ * const counter = {
+ *   count: 0,
+ *   increment: Result.fromThrowable(function (this: { count: number }) {
+ *     return ++this.count;
+ *   }),
+ * };
+ * assert.deepEqual(counter.increment(), Ok(1));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromThrowable = <This, A extends unknown[], T, E = unknown>(
+  f: (this: This, ...args: A) => T,
+  mapError?: (error: unknown) => E,
+): ((this: This, ...args: A) => Result<T, E>) => {
+  return function (this: This, ...args) {
+    return tryCatch(() => f.apply(this, args), mapError);
+  };
+};
+
+/**
+ * Runs a generator function in which `yield* result.try()` unwraps a {@link Result}, like the `?`
+ * operator in Rust.
+ *
+ * `yield* result.try()` evaluates to the contained {@link Ok} value, or stops the generator
+ * and makes `gen` return the {@link Err}. Otherwise, `gen` returns the {@link Result} returned
+ * by the generator. The error type is the union of all the yielded error types.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const parse = (s: string): Result<number, string> => {
+ *   const n = parseInt(s);
+ *   return isNaN(n) ? Err(`${s} is not a number`) : Ok(n);
+ * };
+ * const nonZero = (n: number): Result<number, RangeError> =>
+ *   n === 0 ? Err(new RangeError('zero')) : Ok(n);
+ *
+ * const divide = (a: string, b: string): Result<number, string | RangeError> =>
+ *   Result.gen(function* () {
+ *     const x = yield* parse(a).try();
+ *     const y = yield* nonZero(yield* parse(b).try()).try();
+ *     return Ok(x / y);
+ *   });
+ *
+ * assert.deepEqual(divide('6', '3'), Ok(2));
+ * assert.deepEqual(divide('6', 'foo'), Err('foo is not a number'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const gen = <Y extends Err<unknown>, R extends Result<unknown, unknown>>(
+  f: () => Generator<Y, R, unknown>,
+): Result<OkValue<R>, ErrValue<Y | R>> => {
+  const iterator = f();
+  const next = iterator.next();
+  if (!next.done) {
+    // NOTE: Run `finally` blocks of the generator.
+    iterator.return(next.value as never);
+  }
+  return next.value as Result<OkValue<R>, ErrValue<Y | R>>;
+};
+
+type Results = readonly Result<unknown, unknown>[] | [];
+
+type ResultRecord = Readonly<Record<string, Result<unknown, unknown>>>;
+
+/**
+ * Converts an array, a tuple or a record of {@link Result}s into a {@link Result} of
+ * the contained {@link Ok} values with the same shape, or returns the first {@link Err}.
+ *
+ * This is like `collect::<Result<Vec<_>, _>>()` in Rust.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Result<number[], string> = Result.all([Ok(1), Ok(2)]);
+ * assert.deepEqual(x, Ok([1, 2]));
+ *
+ * const y = Result.all([Ok(1), Err('e1'), Err(2)]);
+ * assert.deepEqual(y, Err('e1'));
+ *
+ * const z: Result<{ a: number; b: string }, never> = Result.all({ a: Ok(1), b: Ok('b') });
+ * assert.deepEqual(z, Ok({ a: 1, b: 'b' }));
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#impl-FromIterator%3CResult%3CA,+E%3E%3E-for-Result%3CV,+E%3E)
+ */
+export function all<R extends Results>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[number]>>;
+export function all<R extends ResultRecord>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[keyof R]>>;
+export function all(results: Results | ResultRecord): Result<unknown, unknown> {
+  const values = (Array.isArray(results) ? [] : {}) as Record<string, unknown>;
+  for (const [key, res] of Object.entries(results)) {
+    if (res.isErr()) {
+      return res;
+    }
+    values[key] = res.value;
+  }
+  return Ok(values);
+}
+
+/**
+ * Returns the first {@link Ok} in an array or a tuple of {@link Result}s,
+ * or an {@link Err} of all the contained error values if there is no {@link Ok}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Result<number, string[]> = Result.any([Err('e1'), Ok(2), Ok(3)]);
+ * assert.deepEqual(x, Ok(2));
+ *
+ * const y: Result<number, [string, number]> = Result.any([Err('e1'), Err(2)]);
+ * assert.deepEqual(y, Err(['e1', 2]));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const any = <R extends Results>(
+  results: R,
+): Result<OkValue<R[number]>, { -readonly [K in keyof R]: ErrValue<R[K]> }> => {
+  const errors: unknown[] = [];
+  for (const res of results) {
+    if (res.isOk()) {
+      return res as Ok<OkValue<R[number]>>;
+    }
+    errors.push(res.value);
+  }
+  return Err(errors as { -readonly [K in keyof R]: ErrValue<R[K]> });
+};
+
+/**
+ * Splits {@link Result}s into the contained {@link Ok} values and the contained {@link Err} values.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const results: Result<number, string>[] = [Ok(1), Err('e1'), Ok(3), Err('e2')];
+ * const [oks, errs] = Result.partition(results);
+ *
+ * assert.deepEqual(oks, [1, 3]);
+ * assert.deepEqual(errs, ['e1', 'e2']);
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/iter/trait.Iterator.html#method.partition)
+ */
+export const partition = <T, E>(
+  results: Iterable<Result<T, E>>,
+): [T[], E[]] => {
+  const oks: T[] = [];
+  const errs: E[] = [];
+  for (const res of results) {
+    if (res.isOk()) {
+      oks.push(res.value);
+    } else {
+      errs.push(res.value);
+    }
+  }
+  return [oks, errs];
+};
+
+/**
+ * Converts an array, a tuple or a record of {@link Result}s into a {@link Result} of
+ * the contained {@link Ok} values with the same shape, or an {@link Err} of
+ * every contained error value.
+ *
+ * Unlike {@link Result.all}, this does not stop at the first {@link Err}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x: Result<number[], string[]> = Result.allSettled([Ok(1), Ok(2)]);
+ * assert.deepEqual(x, Ok([1, 2]));
+ *
+ * const y = Result.allSettled({ a: Err('e1'), b: Ok('b'), c: Err('e2') });
+ * assert.deepEqual(y, Err(['e1', 'e2']));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function allSettled<R extends Results>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[number]>[]>;
+export function allSettled<R extends ResultRecord>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[keyof R]>[]>;
+export function allSettled(
+  results: Results | ResultRecord,
+): Result<unknown, unknown[]> {
+  const values = (Array.isArray(results) ? [] : {}) as Record<string, unknown>;
+  const errors: unknown[] = [];
+  for (const [key, res] of Object.entries(results)) {
+    if (res.isOk()) {
+      values[key] = res.value;
+    } else {
+      errors.push(res.value);
+    }
+  }
+  return errors.length === 0 ? Ok(values) : Err(errors);
+}
+
+/**
+ * Combines independent {@link Result}s in an array, a tuple or a record into a {@link Result} of
+ * the contained {@link Ok} values with the same shape, accumulating every error instead of
+ * stopping at the first {@link Err}.
+ *
+ * The errors are combined with `semigroup` if it is given,
+ * otherwise collected into an array like {@link Result.allSettled}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const name = (s: string): Result<string, string[]> =>
+ *   s === '' ? Err(['name is empty']) : Ok(s);
+ * const age = (n: number): Result<number, string[]> =>
+ *   n < 0 ? Err(['age is negative']) : Ok(n);
+ *
+ * const x: Result<{ name: string; age: number }, string[]> = Result.validate(
+ *   { name: name('alice'), age: age(20) },
+ *   Semigroup.array,
+ * );
+ * assert.deepEqual(x, Ok({ name: 'alice', age: 20 }));
+ *
+ * const y = Result.validate({ name: name(''), age: age(-1) }, Semigroup.array);
+ * assert.deepEqual(y, Err(['name is empty', 'age is negative']));
+ *
+ * const z: Result<[number, string], string[]> = Result.validate([Ok(1), Err('e')]);
+ * assert.deepEqual(z, Err(['e']));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function validate<R extends Results>(
+  results: R,
+  semigroup: Semigroup<ErrValue<R[number]>>,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[number]>>;
+export function validate<R extends ResultRecord>(
+  results: R,
+  semigroup: Semigroup<ErrValue<R[keyof R]>>,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[keyof R]>>;
+export function validate<R extends Results>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[number]>[]>;
+export function validate<R extends ResultRecord>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[keyof R]>[]>;
+export function validate(
+  results: Results | ResultRecord,
+  semigroup?: Semigroup<unknown>,
+): Result<unknown, unknown> {
+  const settled = allSettled(results as ResultRecord);
+  return semigroup
+    ? settled.mapErr((errors) =>
+        errors.reduce((x, y) => semigroup.concat(x, y)),
+      )
+    : settled;
+}
+
+/**
+ * Lazily iterates over the contained {@link Ok} values of an `Iterable` or
+ * an `AsyncIterable` of {@link Result}s, skipping {@link Err}s.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const results: Result<number, string>[] = [Ok(1), Err('e1'), Ok(3)];
+ * assert.deepEqual([...Result.oks(results)], [1, 3]);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function oks<T, E>(results: Iterable<Result<T, E>>): IterableIterator<T>;
+export function oks<T, E>(
+  results: AsyncIterable<Result<T, E>>,
+): AsyncIterableIterator<T>;
+export function oks<T, E>(
+  results: Iterable<Result<T, E>> | AsyncIterable<Result<T, E>>,
+): IterableIterator<T> | AsyncIterableIterator<T> {
+  if (isAsyncIterable(results)) {
+    return (async function* () {
+      for await (const res of results) {
+        yield* res.iter();
+      }
+    })();
+  }
+  return (function* () {
+    for (const res of results) {
+      yield* res.iter();
+    }
+  })();
+}
+
+/**
+ * Lazily iterates over the contained {@link Err} values of an `Iterable` or
+ * an `AsyncIterable` of {@link Result}s, skipping {@link Ok}s.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const results: Result<number, string>[] = [Ok(1), Err('e1'), Ok(3)];
+ * assert.deepEqual([...Result.errs(results)], ['e1']);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export function errs<T, E>(
+  results: Iterable<Result<T, E>>,
+): IterableIterator<E>;
+export function errs<T, E>(
+  results: AsyncIterable<Result<T, E>>,
+): AsyncIterableIterator<E>;
+export function errs<T, E>(
+  results: Iterable<Result<T, E>> | AsyncIterable<Result<T, E>>,
+): IterableIterator<E> | AsyncIterableIterator<E> {
+  if (isAsyncIterable(results)) {
+    return (async function* () {
+      for await (const res of results) {
+        yield* res.err().iter();
+      }
+    })();
+  }
+  return (function* () {
+    for (const res of results) {
+      yield* res.err().iter();
+    }
+  })();
+}
+
+/**
+ * Converts a parsed JSON value into a {@link Result}, validating its shape.
+ *
+ * The value must be in the given format (`'tagged'` by default, see {@link JSONFormat}).
+ * If `ok` or `err` is given, the contained value is also validated with it.
+ * Nested results are not converted; use {@link jsonReviver} for that.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const isNumber = (v: unknown): v is number => typeof v === 'number';
+ * const isString = (v: unknown): v is string => typeof v === 'string';
+ *
+ * const x = Result.fromJSON(JSON.parse('{"$type":"Err","value":"e"}'), {
+ *   ok: isNumber,
+ *   err: isString,
+ * });
+ * assert.deepEqual(x, Ok(Err('e')));
+ *
+ * const y = Result.fromJSON(JSON.parse('{"Ok":1}'), { format: 'serde' });
+ * assert.deepEqual(y, Ok(Ok(1)));
+ *
+ * const z = Result.fromJSON(JSON.parse('{"value":1}'));
+ * assert.equal(z.isErr(), true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const fromJSON = <T = unknown, E = unknown>(
+  json: unknown,
+  {
+    format = 'tagged',
+    ok = (_: unknown): _ is T => true,
+    err = (_: unknown): _ is E => true,
+  }: {
+    format?: JSONFormat;
+    ok?: (value: unknown) => value is T;
+    err?: (value: unknown) => value is E;
+  } = {},
+): Result<Result<T, E>, TypeError> => {
+  const decode = (
+    variant: unknown,
+    value: unknown,
+  ): Result<Result<T, E>, TypeError> | undefined => {
+    if (variant === 'Ok') {
+      return ok(value) ? Ok(Ok(value)) : Err(new TypeError('invalid Ok value'));
+    }
+    if (variant === 'Err') {
+      return err(value)
+        ? Ok(Err(value))
+        : Err(new TypeError('invalid Err value'));
+    }
+    return undefined;
+  };
+
+  if (format === 'serde') {
+    const key = isRecord(json) ? Object.keys(json) : [];
+    const res =
+      isRecord(json) && key.length === 1
+        ? decode(key[0], json[key[0]])
+        : undefined;
+    return res ?? Err(new TypeError('expected {"Ok":...} or {"Err":...}'));
+  }
+  const res =
+    isRecord(json) &&
+    (hasKeys(json, '$type', 'value') || hasKeys(json, '$type'))
+      ? decode(json.$type, json.value)
+      : undefined;
+  return (
+    res ??
+    Err(
+      new TypeError(
+        'expected {"$type":"Ok","value":...} or {"$type":"Err","value":...}',
+      ),
+    )
+  );
+};
+
+/**
+ * Returns a function that converts an error with `target.from`, to be passed to `mapErr`
+ * and the like.
+ *
+ * See {@link <internal>!ResultImpl.convertErr} to convert the error of a result directly.
+ *
+ * # Examples
+ *
+ * ```ts
+ * class AppError extends Error {
+ *   static from(e: Error): AppError {
+ *     return new AppError(e.message, { cause: e });
+ *   }
+ * }
+ *
+ * const x: Result<number, RangeError> = Err(new RangeError('too big'));
+ * const y: Result<number, AppError> = x.mapErr(Result.into(AppError));
+ * assert.equal(y.isErrAnd((e) => e instanceof AppError), true);
+ *
+ * const errors = [new TypeError('a'), new RangeError('b')].map(Result.into(AppError));
+ * assert.equal(errors.every((e) => e instanceof AppError), true);
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const into =
+  <T, U>(target: From<T, U>) =>
+  (value: T): U =>
+    target.from(value);
+
+/**
+ * Returns a function for `orElse` that handles errors with the tag `tag` with `handler`,
+ * and passes the other errors through, removing that tag from the error type.
+ *
+ * The parameter of `handler` needs to be annotated;
+ * see {@link <internal>!ResultImpl.catchTag} for a method that infers it.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const NotFound = defineError('NotFound', (f: { id: number }) => `${f.id} not found`);
+ * const Forbidden = defineError('Forbidden');
+ * type NotFound = InstanceType<typeof NotFound>;
+ * type Forbidden = InstanceType<typeof Forbidden>;
+ *
+ * const x = Err(new NotFound({ id: 1 })) as Result<string, NotFound | Forbidden>;
+ * const y: Result<string, Forbidden> = x.orElse(
+ *   Result.catchTag('NotFound', (e: NotFound) => Ok(`guest ${e.id}`)),
+ * );
+ * assert.deepEqual(y, Ok('guest 1'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const catchTag =
+  <K extends string, H extends { readonly _tag: K }, U, F = never>(
+    tag: K,
+    handler: (error: H) => Result<U, F>,
+  ) =>
+  <E>(error: E): Result<U, Exclude<E, { readonly _tag: K }> | F> =>
+    hasTag(error, tag)
+      ? handler(error as unknown as H)
+      : Err(error as Exclude<E, { readonly _tag: K }>);
@@ -1,9 +1,34 @@
 import { Ok as OkClass } from './ok';
 import { Err as ErrClass } from './err';
 import { Mixin, mixin } from '../util';
-import { ResultImpl } from './impl';
+import { isErr, isOk } from '../guard';
+import {
+  all,
+  allSettled,
+  any,
+  catchTag,
+  errs,
+  fromJSON,
+  fromThrowable,
+  gen,
+  into,
+  oks,
+  partition,
+  ResultImpl,
+  tryCatch,
+  validate,
+} from './impl';
+import {
+  fromPromise,
+  fromThrowableAsync,
+  genAsync,
+  tryCatchAsync,
+} from './async';
 
-const resultImpl = new ResultImpl();
+export { AsyncResult } from './async';
+
+mixin(OkClass, ResultImpl);
+mixin(ErrClass, ResultImpl);
 
 /**
  * Result is a type that represents either success ({@link Ok}) or failure ({@link Err}).
@@ -16,6 +41,32 @@ const resultImpl = new ResultImpl();
  */
 export type Result<T, E> = Ok<T> | Err<E>;
 
+/**
+ * Result is a type that represents either success ({@link Ok}) or failure ({@link Err}).
+ * See the [module documentation]() for details.
+ *
+ * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html)
+ */
+export const Result = {
+  fromPromise,
+  tryCatch,
+  fromThrowable,
+  tryCatchAsync,
+  fromThrowableAsync,
+  gen,
+  genAsync,
+  all,
+  any,
+  partition,
+  allSettled,
+  validate,
+  oks,
+  errs,
+  fromJSON,
+  into,
+  catchTag,
+};
+
 /**
  * Contains the success value
  *
@@ -28,11 +79,17 @@ export type Ok<T> = Mixin<OkClass<T>, ResultImpl>;
 /**
  * Contains the success value
  *
+ * `x instanceof Ok` checks the variant like {@link isOk}.
+ *
  * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#variant.Ok)
  *
  * @see {@link Result}
  */
-export const Ok = <T>(value: T): Ok<T> => mixin(new OkClass(value), resultImpl);
+export const Ok = Object.defineProperty(
+  <T>(value: T): Ok<T> => new OkClass(value) as Ok<T>,
+  Symbol.hasInstance,
+  { value: isOk },
+);
 
 /**
  * Contains the error value
@@ -46,9 +103,14 @@ export type Err<T> = Mixin<ErrClass<T>, ResultImpl>;
 /**
  * Contains the error value
  *
+ * `x instanceof Err` checks the variant like {@link isErr}.
+ *
  * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#variant.Err)
  *
  * @see {@link Result}
  */
-export const Err = <E>(value: E): Err<E> =>
-  mixin(new ErrClass(value), resultImpl);
+export const Err = Object.defineProperty(
+  <E>(value: E): Err<E> => new ErrClass(value) as Err<E>,
+  Symbol.hasInstance,
+  { value: isErr },
+);
@@ -1,3 +1,5 @@
+import { variant } from '../util';
+
 const OkType = Symbol('Ok');
 
 export class Ok<T> {
@@ -5,6 +7,15 @@ export class Ok<T> {
 
   constructor(readonly value: T) {}
 
+  /**
+   * The name of the variant, used by {@link isOk} and the other guards.
+   *
+   * @hidden
+   */
+  get [variant](): 'Ok' {
+    return 'Ok';
+  }
+
   /**
    * Returns `true` if the result is {@link Ok}.
    *
@@ -42,4 +53,31 @@ export class Ok<T> {
   isErr(): boolean {
     return false;
   }
+
+  /**
+   * Returns an iterator that yields the contained value, so that a result can be used with
+   * `for...of` and spread like a collection of zero or one item.
+   *
+   * # Examples
+   *
+   * ```ts
+   * assert.deepEqual([...Ok(2)], [2]);
+   * ```
+   *
+   * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#impl-IntoIterator-for-Result%3CT,+E%3E)
+   */
+  *[Symbol.iterator](): Generator<T, void, unknown> {
+    yield this.value;
+  }
+
+  /**
+   * Returns an iterator that returns the contained value without yielding.
+   *
+   * This lets `yield*` unwrap a result inside {@link Result.gen}.
+   *
+   * This is not in Rust.
+   */
+  *try(): Generator<never, T, unknown> {
+    return this.value;
+  }
 }
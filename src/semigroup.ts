@@ -0,0 +1,43 @@
+/**
+ * An associative operation combining two values of `T`, used to accumulate errors in
+ * {@link Result.validate}.
+ *
+ * Any object with a `concat` method is a semigroup.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const messages: Semigroup<string> = { concat: (x, y) => `${x}; ${y}` };
+ *
+ * const x = Result.validate([Err('too short'), Ok(1), Err('no digit')], messages);
+ * assert.deepEqual(x, Err('too short; no digit'));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export interface Semigroup<T> {
+  concat(x: T, y: T): T;
+}
+
+/**
+ * The {@link Semigroup}s of built-in types.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const x = Result.validate([Err(['e1', 'e2']), Err(['e3'])], Semigroup.array);
+ * assert.deepEqual(x, Err(['e1', 'e2', 'e3']));
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const Semigroup = {
+  /** Concatenates arrays. */
+  array: {
+    concat: <T>(x: readonly T[], y: readonly T[]): T[] => [...x, ...y],
+  },
+  /** Joins strings with `separator`. */
+  string: (separator = ''): Semigroup<string> => ({
+    concat: (x, y) => `${x}${separator}${y}`,
+  }),
+};
@@ -0,0 +1,431 @@
+import { Option } from '../option';
+import { Result } from '../result';
+
+type Variant = Option<unknown> | Result<unknown, unknown>;
+
+/**
+ * The part of the matcher context of Jest and Vitest that the matchers use.
+ */
+export interface MatcherContext {
+  isNot?: boolean;
+  equals(a: unknown, b: unknown): boolean;
+  utils: {
+    diff(a: unknown, b: unknown): string | null | undefined;
+    matcherHint(name: string, received?: string, expected?: string): string;
+    printExpected(value: unknown): string;
+    printReceived(value: unknown): string;
+  };
+}
+
+/**
+ * The result of a matcher.
+ */
+export interface MatcherResult {
+  pass: boolean;
+  message(): string;
+}
+
+/**
+ * The matchers added by {@link matchers}, for declaring them to the test framework.
+ *
+ * # Examples
+ *
+ * With Vitest:
+ *
+ * ```ts
+ * import type { OptionResultMatchers } from '@schrosis/rus-ts/testing';
+ *
+ * declare module 'vitest' {
+ *   interface Assertion<T> extends OptionResultMatchers<T> {}
+ * }
+ * ```
+ *
+ * With Jest, they are declared on `jest.Matchers` when this module is imported.
+ */
+export interface OptionResultMatchers<R> {
+  /**
+   * Passes if the received value equals the expected option or result.
+   */
+  toBeEqualTo(expected: Variant): R;
+  /**
+   * Passes if the received value is {@link Some}, containing `value` if it is given.
+   */
+  toBeSome(value?: unknown): R;
+  /**
+   * Passes if the received value is {@link None}.
+   */
+  toBeNone(): R;
+  /**
+   * Passes if the received value is {@link Ok}, containing `value` if it is given.
+   */
+  toBeOk(value?: unknown): R;
+  /**
+   * Passes if the received value is {@link Err}, containing `value` if it is given.
+   */
+  toBeErr(value?: unknown): R;
+  /**
+   * Passes if the received value is {@link Err} and `predicate` returns `true` for the error.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  toBeErrWith(predicate: (error: any) => boolean): R;
+}
+
+type VariantName = 'Some' | 'None' | 'Ok' | 'Err';
+
+const isVariant = (value: unknown): value is Variant =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Partial<Variant>).equals === 'function';
+
+const variantOf = (value: unknown): VariantName | undefined => {
+  if (!isVariant(value)) {
+    return undefined;
+  }
+  if ('isSome' in value) {
+    return value.isSome() ? 'Some' : 'None';
+  }
+  return value.isOk() ? 'Ok' : 'Err';
+};
+
+const print = (
+  value: unknown,
+  printValue: (value: unknown) => string,
+): string => {
+  const variant = variantOf(value);
+  if (variant === undefined) {
+    return printValue(value);
+  }
+  return variant === 'None'
+    ? 'None'
+    : `${variant}(${printValue((value as { value: unknown }).value)})`;
+};
+
+type Seen = [unknown, unknown][];
+
+// NOTE: A deep equality like `toEqual` for asymmetric matchers, which are called without a matcher context.
+const deepEquals = (a: unknown, b: unknown, seen: Seen = []): boolean => {
+  if (isAsymmetricMatcher(b)) {
+    return b.asymmetricMatch(a);
+  }
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+  if (seen.some(([x, y]) => x === a && y === b)) {
+    return true;
+  }
+  const eq = (x: unknown, y: unknown) => deepEquals(x, y, [...seen, [a, b]]);
+
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime());
+  }
+  if (a instanceof RegExp) {
+    return String(a) === String(b);
+  }
+  if (a instanceof Error && a.message !== (b as Error).message) {
+    return false;
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return (
+      a.size === other.size &&
+      [...a].every(([key, value]) =>
+        other.has(key)
+          ? eq(value, other.get(key))
+          : [...other].some(([k, v]) => eq(key, k) && eq(value, v)),
+      )
+    );
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return (
+      a.size === other.size &&
+      [...a].every(
+        (value) => other.has(value) || [...other].some((v) => eq(value, v)),
+      )
+    );
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        eq(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+};
+
+// NOTE: A printer like pretty-format for asymmetric matchers, which are printed without a matcher context.
+const format = (value: unknown, seen: unknown[] = []): string => {
+  if (isAsymmetricMatcher(value) && 'toAsymmetricMatcher' in value) {
+    return (value as AsymmetricMatcher).toAsymmetricMatcher();
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (typeof value === 'function') {
+    return `[Function ${value.name || 'anonymous'}]`;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return Object.is(value, -0) ? '-0' : String(value);
+  }
+  if (seen.includes(value)) {
+    return '[Circular]';
+  }
+  const f = (v: unknown) => format(v, [...seen, value]);
+
+  const variant = variantOf(value);
+  if (variant !== undefined) {
+    return variant === 'None'
+      ? 'None'
+      : `${variant}(${f((value as { value: unknown }).value)})`;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Date { NaN }' : value.toISOString();
+  }
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  if (value instanceof Error) {
+    return `[${value.name}: ${value.message}]`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(f).join(', ')}]`;
+  }
+  if (value instanceof Map) {
+    const entries = [...value].map(([k, v]) => `${f(k)} => ${f(v)}`);
+    return `Map {${entries.join(', ')}}`;
+  }
+  if (value instanceof Set) {
+    return `Set {${[...value].map(f).join(', ')}}`;
+  }
+  const name = Object.getPrototypeOf(value)?.constructor?.name;
+  const props = Object.entries(value).map(
+    ([k, v]) => `${JSON.stringify(k)}: ${f(v)}`,
+  );
+  return `${name && name !== 'Object' ? `${name} ` : ''}{${props.join(', ')}}`;
+};
+
+const isAsymmetricMatcher = (
+  value: unknown,
+): value is { asymmetricMatch(other: unknown): boolean } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { asymmetricMatch?: unknown }).asymmetricMatch ===
+    'function';
+
+function matchVariant(
+  this: MatcherContext,
+  name: string,
+  received: unknown,
+  variant: VariantName,
+  args: unknown[],
+): MatcherResult {
+  const actual = variantOf(received);
+  const inner = actual && (received as { value?: unknown }).value;
+  const pass =
+    actual === variant && (args.length === 0 || this.equals(inner, args[0]));
+  const expected =
+    args.length === 0
+      ? variant
+      : `${variant}(${this.utils.printExpected(args[0])})`;
+
+  return {
+    pass,
+    message: () => {
+      const hint = this.utils.matcherHint(
+        `${this.isNot ? '.not' : ''}.${name}`,
+        undefined,
+        args.length === 0 ? '' : undefined,
+      );
+      const lines = [
+        hint,
+        '',
+        `Expected: ${this.isNot ? 'not ' : ''}${expected}`,
+        `Received: ${print(received, this.utils.printReceived)}`,
+      ];
+      if (!this.isNot && actual === variant && args.length !== 0) {
+        const diff = this.utils.diff(args[0], inner);
+        if (diff) {
+          lines.push('', diff);
+        }
+      }
+      return lines.join('\n');
+    },
+  };
+}
+
+/**
+ * Custom matchers for {@link Option} and {@link Result}, to be registered with `expect.extend`.
+ *
+ * On failure, they print the variant along with the contained value,
+ * and the diff of the contained values if the variant matches.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { matchers } from '@schrosis/rus-ts/testing';
+ *
+ * expect.extend(matchers);
+ *
+ * expect(Some(Ok(1))).toBeEqualTo(Some(Ok(1)));
+ * expect(Some({ id: 1 })).toBeSome({ id: 1 });
+ * expect(None).toBeNone();
+ * expect(Err(new Error('boom'))).toBeErrWith((e) => e.message === 'boom');
+ * ```
+ *
+ * This is not in Rust.
+ */
+export const matchers = {
+  toBeEqualTo(
+    this: MatcherContext,
+    received: unknown,
+    expected: Variant,
+  ): MatcherResult {
+    const pass =
+      isVariant(received) &&
+      'isSome' in received === 'isSome' in expected &&
+      (received as Result<unknown, unknown>).equals(
+        expected as Result<unknown, unknown>,
+      );
+    return {
+      pass,
+      message: () =>
+        `expected ${print(received, this.utils.printReceived)} ${
+          this.isNot ? 'not ' : ''
+        }to be equal to ${print(expected, this.utils.printExpected)}`,
+    };
+  },
+
+  toBeSome(
+    this: MatcherContext,
+    received: unknown,
+    ...args: unknown[]
+  ): MatcherResult {
+    return matchVariant.call(this, 'toBeSome', received, 'Some', args);
+  },
+
+  toBeNone(this: MatcherContext, received: unknown): MatcherResult {
+    return matchVariant.call(this, 'toBeNone', received, 'None', []);
+  },
+
+  toBeOk(
+    this: MatcherContext,
+    received: unknown,
+    ...args: unknown[]
+  ): MatcherResult {
+    return matchVariant.call(this, 'toBeOk', received, 'Ok', args);
+  },
+
+  toBeErr(
+    this: MatcherContext,
+    received: unknown,
+    ...args: unknown[]
+  ): MatcherResult {
+    return matchVariant.call(this, 'toBeErr', received, 'Err', args);
+  },
+
+  toBeErrWith(
+    this: MatcherContext,
+    received: unknown,
+    predicate: (error: unknown) => boolean,
+  ): MatcherResult {
+    const pass =
+      variantOf(received) === 'Err' &&
+      predicate((received as { value: unknown }).value);
+    return {
+      pass,
+      message: () =>
+        [
+          this.utils.matcherHint(
+            `${this.isNot ? '.not' : ''}.toBeErrWith`,
+            undefined,
+            'predicate',
+          ),
+          '',
+          `Expected: ${
+            this.isNot ? 'not ' : ''
+          }Err for which the predicate returns true`,
+          `Received: ${print(received, this.utils.printReceived)}`,
+        ].join('\n'),
+    };
+  },
+};
+
+/**
+ * An asymmetric matcher, which can be used in place of a value in `toEqual` and the like.
+ */
+export interface AsymmetricMatcher {
+  asymmetricMatch(other: unknown): boolean;
+  toAsymmetricMatcher(): string;
+}
+
+const asymmetric = (
+  variant: VariantName,
+  args: [] | [unknown],
+): AsymmetricMatcher =>
+  ({
+    asymmetricMatch: (other) =>
+      variantOf(other) === variant &&
+      (args.length === 0 ||
+        deepEquals((other as { value: unknown }).value, args[0])),
+    toAsymmetricMatcher: () =>
+      args.length === 0 || variant === 'None'
+        ? `Any${variant}`
+        : `Any${variant}(${format(args[0])})`,
+    // NOTE: Lets the printers of Jest and Vitest call `toAsymmetricMatcher`.
+    $$typeof: Symbol.for('jest.asymmetricMatcher'),
+  } as AsymmetricMatcher);
+
+/**
+ * Matches any {@link Some}, containing `value` if it is given.
+ *
+ * # Examples
+ *
+ * ```ts
+ * expect({ id: 1, name: Some('alice') }).toEqual({ id: 1, name: anySome() });
+ * expect([Some(1), Some(2)]).toEqual([anySome(1), anySome(expect.any(Number))]);
+ * ```
+ */
+export const anySome = (...args: [] | [unknown]): AsymmetricMatcher =>
+  asymmetric('Some', args);
+
+/**
+ * Matches {@link None}.
+ */
+export const anyNone = (): AsymmetricMatcher => asymmetric('None', []);
+
+/**
+ * Matches any {@link Ok}, containing `value` if it is given.
+ */
+export const anyOk = (...args: [] | [unknown]): AsymmetricMatcher =>
+  asymmetric('Ok', args);
+
+/**
+ * Matches any {@link Err}, containing `value` if it is given.
+ */
+export const anyErr = (...args: [] | [unknown]): AsymmetricMatcher =>
+  asymmetric('Err', args);
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    // eslint-disable-next-line @typescript-eslint/ban-types, @typescript-eslint/no-empty-interface, @typescript-eslint/no-unused-vars
+    interface Matchers<R, T = {}> extends OptionResultMatchers<R> {}
+  }
+}
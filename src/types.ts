@@ -0,0 +1,128 @@
+import type { AsyncOption, Option } from './option';
+import type { AsyncResult, Result } from './result';
+import type { SomeValue } from './option/impl';
+import type { ErrValue, OkValue } from './result/impl';
+
+/**
+ * The {@link Ok} type of a {@link Result} or an {@link AsyncResult}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = OkType<Result<number, string>>; // number
+ * type B = OkType<AsyncResult<number, string>>; // number
+ * type C = OkType<Err<string>>; // never
+ * ```
+ */
+export type OkType<R> = R extends AsyncResult<infer T, unknown>
+  ? T
+  : OkValue<R>;
+
+/**
+ * The {@link Err} type of a {@link Result} or an {@link AsyncResult}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = ErrType<Result<number, string>>; // string
+ * type B = ErrType<AsyncResult<number, string>>; // string
+ * type C = ErrType<Ok<number>>; // never
+ * ```
+ */
+export type ErrType<R> = R extends AsyncResult<unknown, infer E>
+  ? E
+  : ErrValue<R>;
+
+/**
+ * The {@link Some} type of an {@link Option} or an {@link AsyncOption}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = SomeType<Option<number>>; // number
+ * type B = SomeType<AsyncOption<number>>; // number
+ * type C = SomeType<None>; // never
+ * ```
+ */
+export type SomeType<O> = O extends AsyncOption<infer T> ? T : SomeValue<O>;
+
+/**
+ * The {@link Result} returned by a function returning a {@link Result},
+ * a `Promise` of a {@link Result} or an {@link AsyncResult}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * const find = async (id: number): Promise<Result<User, NotFound>> => ...;
+ *
+ * type A = UnwrapResult<typeof find>; // Result<User, NotFound>
+ * type B = OkType<UnwrapResult<typeof find>>; // User
+ * ```
+ */
+export type UnwrapResult<F extends (...args: never[]) => unknown> = Extract<
+  Awaited<ReturnType<F>>,
+  Result<unknown, unknown>
+>;
+
+/**
+ * The signature of a function `F` that may throw, converted to return a {@link Result} with
+ * the error type `E`, or an {@link AsyncResult} if `F` returns a `Promise`, like the functions
+ * returned by {@link Result.fromThrowable} and {@link Result.fromThrowableAsync}.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = ResultifyFn<typeof JSON.parse, SyntaxError>;
+ * // (text: string, reviver?: ...) => Result<any, SyntaxError>
+ * type B = ResultifyFn<(url: string) => Promise<Response>>;
+ * // (url: string) => AsyncResult<Response, unknown>
+ * ```
+ */
+export type ResultifyFn<
+  F extends (...args: never[]) => unknown,
+  E = unknown,
+> = (
+  ...args: Parameters<F>
+) => ReturnType<F> extends PromiseLike<infer T>
+  ? AsyncResult<T, E>
+  : Result<ReturnType<F>, E>;
+
+/**
+ * The keys of the optional properties of `T`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = OptionalKeys<{ a: number; b?: string; c: boolean | undefined }>; // 'b'
+ * ```
+ */
+export type OptionalKeys<T> = {
+  [K in keyof T]-?: Record<string, never> extends Pick<T, K> ? K : never;
+}[keyof T];
+
+/**
+ * The keys of the required properties of `T`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = RequiredKeys<{ a: number; b?: string; c: boolean | undefined }>; // 'a' | 'c'
+ * ```
+ */
+export type RequiredKeys<T> = Exclude<keyof T, OptionalKeys<T>>;
+
+/**
+ * `T` with its optional properties turned into required {@link Option} properties,
+ * without `undefined` or `null` in their types.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type A = OptionalToOption<{ a: number; b?: string | null }>; // { a: number; b: Option<string> }
+ * ```
+ */
+export type OptionalToOption<T> = {
+  [K in keyof T]-?: K extends OptionalKeys<T>
+    ? Option<Exclude<T[K], undefined | null>>
+    : T[K];
+};
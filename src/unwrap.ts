@@ -0,0 +1,154 @@
+import { Option } from './option';
+import { Result } from './result';
+
+/**
+ * The error thrown by {@link unwrap}, {@link expect}, {@link unwrapErr} and {@link expectErr}
+ * when the value is not the expected variant.
+ *
+ * `variant` and `value` are the variant and the contained value of the unwrapped
+ * option or result. If it is an {@link Err}, the error is also set as `cause`.
+ */
+export class UnwrapError extends Error {
+  override readonly name = 'UnwrapError';
+
+  constructor(
+    message: string,
+    readonly variant: 'None' | 'Ok' | 'Err',
+    readonly value?: unknown,
+  ) {
+    super(message, variant === 'Err' ? { cause: value } : undefined);
+  }
+}
+
+const describe = (value: unknown): string =>
+  value instanceof Error ? `${value.name}: ${value.message}` : String(value);
+
+const fail = (
+  message: string,
+  value: Option<unknown> | Result<unknown, unknown>,
+): never => {
+  if ('isSome' in value) {
+    throw new UnwrapError(message, 'None');
+  }
+  const variant = value.isOk() ? 'Ok' : 'Err';
+  throw new UnwrapError(
+    `${message}: ${describe(value.value)}`,
+    variant,
+    value.value,
+  );
+};
+
+/**
+ * Returns the contained {@link Some} or {@link Ok} value, or throws an {@link UnwrapError}.
+ *
+ * This is meant for tests and scripts, where a {@link None} or an {@link Err} is a bug.
+ * It is only exported from `@schrosis/rus-ts/unwrap`, so that the import can be
+ * forbidden in production code with a lint rule such as `no-restricted-imports`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { unwrap, UnwrapError } from '@schrosis/rus-ts/unwrap';
+ *
+ * assert.equal(unwrap(Some('air')), 'air');
+ * assert.equal(unwrap(Ok(2)), 2);
+ * assert.throws(() => unwrap(None), UnwrapError);
+ * assert.throws(() => unwrap(Err('emergency failure')), {
+ *   message: 'called `Result::unwrap()` on an `Err` value: emergency failure',
+ *   cause: 'emergency failure',
+ * });
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.unwrap)
+ */
+export function unwrap<T>(value: Option<T>): T;
+export function unwrap<T, E>(value: Result<T, E>): T;
+export function unwrap(
+  value: Option<unknown> | Result<unknown, unknown>,
+): unknown {
+  if ('isSome' in value) {
+    return value.isSome()
+      ? value.value
+      : fail('called `Option::unwrap()` on a `None` value', value);
+  }
+  return value.isOk()
+    ? value.value
+    : fail('called `Result::unwrap()` on an `Err` value', value);
+}
+
+/**
+ * Returns the contained {@link Some} or {@link Ok} value, or throws an {@link UnwrapError}
+ * with `message`.
+ *
+ * See {@link unwrap} for when to use this.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { expect } from '@schrosis/rus-ts/unwrap';
+ *
+ * assert.equal(expect(Some('value'), 'fruits are healthy'), 'value');
+ * assert.throws(() => expect(None, 'fruits are healthy'), {
+ *   message: 'fruits are healthy',
+ * });
+ * assert.throws(() => expect(Err('emergency failure'), 'Testing expect'), {
+ *   message: 'Testing expect: emergency failure',
+ * });
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.expect)
+ */
+export function expect<T>(value: Option<T>, message: string): T;
+export function expect<T, E>(value: Result<T, E>, message: string): T;
+export function expect(
+  value: Option<unknown> | Result<unknown, unknown>,
+  message: string,
+): unknown {
+  if ('isSome' in value) {
+    return value.isSome() ? value.value : fail(message, value);
+  }
+  return value.isOk() ? value.value : fail(message, value);
+}
+
+/**
+ * Returns the contained {@link Err} value, or throws an {@link UnwrapError}.
+ *
+ * See {@link unwrap} for when to use this.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { unwrapErr } from '@schrosis/rus-ts/unwrap';
+ *
+ * assert.equal(unwrapErr(Err('emergency failure')), 'emergency failure');
+ * assert.throws(() => unwrapErr(Ok(2)), {
+ *   message: 'called `Result::unwrap_err()` on an `Ok` value: 2',
+ * });
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.unwrap_err)
+ */
+export const unwrapErr = <T, E>(value: Result<T, E>): E =>
+  value.isErr()
+    ? value.value
+    : fail('called `Result::unwrap_err()` on an `Ok` value', value);
+
+/**
+ * Returns the contained {@link Err} value, or throws an {@link UnwrapError} with `message`.
+ *
+ * See {@link unwrap} for when to use this.
+ *
+ * # Examples
+ *
+ * ```ts
+ * import { expectErr } from '@schrosis/rus-ts/unwrap';
+ *
+ * assert.throws(() => expectErr(Ok(10), 'Testing expectErr'), {
+ *   message: 'Testing expectErr: 10',
+ * });
+ * ```
+ *
+ * [In Rust](https://doc.rust-lang.org/std/result/enum.Result.html#method.expect_err)
+ */
+export const expectErr = <T, E>(value: Result<T, E>, message: string): E =>
+  value.isErr() ? value.value : fail(message, value);
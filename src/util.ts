@@ -2,10 +2,126 @@
 
 export type Mixin<T, Trait> = T & Omit<Trait, keyof T>;
 
+/**
+ * Copies the methods of `trait` onto the prototype of `target`, except those `target` already has.
+ *
+ * Instances of `target` can then be typed as `Mixin<T, Trait>` without any wrapper,
+ * so property access stays a plain prototype lookup.
+ */
 export const mixin = <T extends object, Trait extends object>(
-  object: T,
-  trait: Trait,
-): Mixin<T, Trait> =>
-  new Proxy(object, {
-    get: (target, key) => (target as any)[key] ?? (trait as any)[key],
-  }) as any;
+  target: abstract new (...args: any[]) => T,
+  trait: abstract new () => Trait,
+): void => {
+  for (const key of Reflect.ownKeys(trait.prototype)) {
+    if (key === 'constructor' || key in target.prototype) {
+      continue;
+    }
+    Object.defineProperty(
+      target.prototype,
+      key,
+      Object.getOwnPropertyDescriptor(
+        trait.prototype,
+        key,
+      ) as PropertyDescriptor,
+    );
+  }
+};
+
+/**
+ * The key of the name of the variant, defined on the prototypes of the variants.
+ *
+ * It is registered with `Symbol.for`, so values from another copy of this package or
+ * another realm are recognized too.
+ */
+export const variant = Symbol.for('@schrosis/rus-ts/variant');
+
+export type Awaitable<T> = T | PromiseLike<T>;
+
+export const isAsyncIterable = <T>(
+  value: Iterable<T> | AsyncIterable<T>,
+): value is AsyncIterable<T> => Symbol.asyncIterator in value;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const hasKeys = (
+  value: Record<string, unknown>,
+  ...keys: string[]
+): boolean => {
+  const own = Object.keys(value);
+  return own.length === keys.length && keys.every((key) => own.includes(key));
+};
+
+export const hasMethod = <K extends string>(
+  value: unknown,
+  key: K,
+): value is Record<K, (...args: any[]) => any> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as any)[key] === 'function';
+
+/**
+ * Compares with the `equals` method of `a` if it has one,
+ * otherwise with SameValueZero (`===`, except that `NaN` equals `NaN`).
+ */
+export const defaultEquals = (a: unknown, b: unknown): boolean => {
+  if (hasMethod(a, 'equals')) {
+    return a.equals(b);
+  }
+  return a === b || (a !== a && b !== b);
+};
+
+/**
+ * Compares with the `compare` method of `a` if it has one,
+ * otherwise with `<` and `>`. Returns `-1`, `0` or `1`.
+ */
+export const defaultCompare = (a: unknown, b: unknown): number => {
+  if (hasMethod(a, 'compare')) {
+    return Math.sign(a.compare(b));
+  }
+  if ((a as any) < (b as any)) {
+    return -1;
+  }
+  return (a as any) > (b as any) ? 1 : 0;
+};
+
+/**
+ * Combines 32-bit hashes into one with FNV-1a.
+ */
+export const hashCombine = (...hashes: number[]): number =>
+  hashes.reduce((h, x) => Math.imul(h ^ x, 0x01000193) >>> 0, 0x811c9dc5);
+
+const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 0;
+
+const objectId = (value: object): number => {
+  let id = objectIds.get(value);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return id;
+};
+
+/**
+ * Hashes with the `hash` method of `value` if it has one.
+ * Primitives are hashed by their type and string form, and other objects by their identity,
+ * so that values equal by {@link defaultEquals} have the same hash.
+ */
+export const defaultHash = (value: unknown): number => {
+  if (hasMethod(value, 'hash')) {
+    return value.hash();
+  }
+  return (typeof value === 'object' && value !== null) ||
+    typeof value === 'function'
+    ? hashCombine(objectId(value))
+    : hashString(`${typeof value}:${String(value)}`);
+};
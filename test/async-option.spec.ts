@@ -0,0 +1,364 @@
+import {
+  AsyncOption,
+  AsyncResult,
+  Err,
+  None,
+  Ok,
+  Option,
+  Result,
+  Some,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+import { Equal, expectType } from './helpers';
+
+describe('AsyncOption', () => {
+  it('Chains async callbacks and resolves to a plain Option.', async () => {
+    const findUser = async (id: number): Promise<string | undefined> =>
+      id === 1 ? 'alice' : undefined;
+
+    const x = await Option.fromPromise(findUser(1))
+      .filter(async (name) => name.length > 3)
+      .map((name) => name.toUpperCase());
+    assert.deepEqual(x, Some('ALICE'));
+
+    const y = await Option.fromPromise(findUser(2))
+      .filter(async (name) => name.length > 3)
+      .map((name) => name.toUpperCase());
+    assert.deepEqual(y, None);
+  });
+
+  it('Rejects if a callback throws.', async () => {
+    const x = Some(1)
+      .toAsync()
+      .map(() => {
+        throw new Error('boom');
+      });
+    await assert.rejects(Promise.resolve(x), /boom/);
+  });
+
+  describe('isSome', () => {
+    it('Resolves to true if the option is a Some value.', async () => {
+      assert.equal(await Some(2).toAsync().isSome(), true);
+      assert.equal(await None.toAsync().isSome(), false);
+    });
+  });
+
+  describe('isNone', () => {
+    it('Resolves to true if the option is a None value.', async () => {
+      assert.equal(await Some(2).toAsync().isNone(), false);
+      assert.equal(await None.toAsync().isNone(), true);
+    });
+  });
+
+  describe('unwrapOr', () => {
+    it('Resolves to the contained Some value or a provided default.', async () => {
+      assert.equal(await Some('car').toAsync().unwrapOr('bike'), 'car');
+      assert.equal(await None.toAsync().unwrapOr('bike'), 'bike');
+    });
+  });
+
+  describe('unwrapOrElse', () => {
+    it('Resolves to the contained Some value or computes it from a closure.', async () => {
+      const k = 10;
+      assert.equal(
+        await Some(4)
+          .toAsync()
+          .unwrapOrElse(async () => 2 * k),
+        4,
+      );
+      assert.equal(await None.toAsync().unwrapOrElse(async () => 2 * k), 20);
+    });
+  });
+
+  describe('map', () => {
+    it('Maps an AsyncOption<T> to AsyncOption<U> by applying a function to a contained value.', async () => {
+      const len = async (s: string): Promise<number> => s.length;
+
+      assert.deepEqual(
+        await Some('Hello, World!').toAsync().map(len),
+        Some(13),
+      );
+      assert.deepEqual(
+        await (None.toAsync() as AsyncOption<string>).map(len),
+        None,
+      );
+    });
+  });
+
+  describe('mapOr', () => {
+    it('Resolves to the provided default result (if none), or applies a function to the contained value (if any).', async () => {
+      const x = Some('foo').toAsync();
+      assert.equal(await x.mapOr(42, async (v) => v.length), 3);
+
+      const y = None.toAsync() as AsyncOption<string>;
+      assert.equal(await y.mapOr(42, async (v) => v.length), 42);
+    });
+  });
+
+  describe('mapOrElse', () => {
+    it('Computes a default function result (if none), or applies a different function to the contained value (if any).', async () => {
+      const k = 21;
+
+      const x = Some('foo').toAsync();
+      assert.equal(
+        await x.mapOrElse(
+          async () => 2 * k,
+          (v) => v.length,
+        ),
+        3,
+      );
+
+      const y = None.toAsync() as AsyncOption<string>;
+      assert.equal(
+        await y.mapOrElse(
+          async () => 2 * k,
+          (v) => v.length,
+        ),
+        42,
+      );
+    });
+  });
+
+  describe('okOr', () => {
+    it('Transforms the AsyncOption<T> into an AsyncResult<T, E>.', async () => {
+      assert.deepEqual(await Some('foo').toAsync().okOr(0), Ok('foo'));
+      assert.deepEqual(await None.toAsync().okOr(0), Err(0));
+    });
+
+    it('Can be chained as an AsyncResult.', async () => {
+      const x = await Option.fromPromise(Promise.resolve(undefined))
+        .okOr('not found')
+        .mapErr((e) => e.toUpperCase());
+      assert.deepEqual(x, Err('NOT FOUND'));
+    });
+  });
+
+  describe('okOrElse', () => {
+    it('Transforms the AsyncOption<T> into an AsyncResult<T, E> with a lazily computed error.', async () => {
+      let called = false;
+      const err = async (): Promise<number> => {
+        called = true;
+        return 0;
+      };
+
+      assert.deepEqual(await Some('foo').toAsync().okOrElse(err), Ok('foo'));
+      assert.equal(called, false);
+      assert.deepEqual(await None.toAsync().okOrElse(err), Err(0));
+      assert.equal(called, true);
+    });
+  });
+
+  describe('and', () => {
+    it('Resolves to None if the option is None, otherwise to optb.', async () => {
+      assert.deepEqual(await Some(2).toAsync().and(None), None);
+      assert.deepEqual(
+        await Some(2)
+          .toAsync()
+          .and(Promise.resolve(Some('foo'))),
+        Some('foo'),
+      );
+      assert.deepEqual(await None.toAsync().and(Some('foo')), None);
+    });
+  });
+
+  describe('andThen', () => {
+    it('Resolves to None if the option is None, otherwise calls f with the wrapped value and resolves to the result.', async () => {
+      const findManager = async (name: string): Promise<Option<string>> =>
+        name === 'alice' ? Some('bob') : None;
+
+      assert.deepEqual(
+        await Some('alice').toAsync().andThen(findManager),
+        Some('bob'),
+      );
+      assert.deepEqual(await Some('bob').toAsync().andThen(findManager), None);
+      assert.deepEqual(
+        await (None.toAsync() as AsyncOption<string>).andThen(findManager),
+        None,
+      );
+    });
+
+    it('Accepts callbacks returning an Option or an AsyncOption.', async () => {
+      assert.deepEqual(
+        await Some(2)
+          .toAsync()
+          .andThen((x) => Some(x + 1))
+          .andThen((x) => Some(x * 2).toAsync()),
+        Some(6),
+      );
+    });
+  });
+
+  describe('filter', () => {
+    it('Resolves to None if the option is None, otherwise calls predicate with the wrapped value.', async () => {
+      const isEven = async (n: number): Promise<boolean> => n % 2 == 0;
+
+      assert.deepEqual(
+        await (None.toAsync() as AsyncOption<number>).filter(isEven),
+        None,
+      );
+      assert.deepEqual(await Some(3).toAsync().filter(isEven), None);
+      assert.deepEqual(await Some(4).toAsync().filter(isEven), Some(4));
+    });
+  });
+
+  describe('or', () => {
+    it('Resolves to the option if it contains a value, otherwise to optb.', async () => {
+      assert.deepEqual(await Some(2).toAsync().or(None), Some(2));
+      assert.deepEqual(
+        await None.toAsync().or(Promise.resolve(Some(100))),
+        Some(100),
+      );
+    });
+  });
+
+  describe('orElse', () => {
+    it('Resolves to the option if it contains a value, otherwise calls f and resolves to the result.', async () => {
+      const nobody = async (): Promise<Option<string>> => None;
+      const vikings = async (): Promise<Option<string>> => Some('vikings');
+
+      assert.deepEqual(
+        await Some('barbarians').toAsync().orElse(vikings),
+        Some('barbarians'),
+      );
+      assert.deepEqual(await None.toAsync().orElse(vikings), Some('vikings'));
+      assert.deepEqual(await None.toAsync().orElse(nobody), None);
+    });
+  });
+
+  describe('xor', () => {
+    it('Resolves to Some if exactly one of this, optb is Some, otherwise to None.', async () => {
+      assert.deepEqual(await Some(2).toAsync().xor(None), Some(2));
+      assert.deepEqual(
+        await (None.toAsync() as AsyncOption<number>).xor(Some(2)),
+        Some(2),
+      );
+      assert.deepEqual(await Some(2).toAsync().xor(Some(2)), None);
+      assert.deepEqual(await None.toAsync().xor(None), None);
+    });
+  });
+
+  describe('zip', () => {
+    it('Zips this with another Option.', async () => {
+      assert.deepEqual(
+        await Some(1).toAsync().zip(Some('hi')),
+        Some([1, 'hi']),
+      );
+      assert.deepEqual(
+        await Some(1).toAsync().zip(Promise.resolve(None)),
+        None,
+      );
+    });
+  });
+
+  describe('Symbol.asyncIterator', () => {
+    it('Iterates over the possibly contained value with for await.', async () => {
+      const values: number[] = [];
+      for await (const v of Some(1).toAsync()) {
+        values.push(v);
+      }
+      for await (const v of (None as Option<number>).toAsync()) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1]);
+    });
+  });
+
+  describe('transpose', () => {
+    it('Transposes an AsyncOption of a Result into an AsyncResult of an Option.', async () => {
+      type SomeErr = { message: string };
+
+      const a = Some(Ok(5)).toAsync() as AsyncOption<Result<number, SomeErr>>;
+      assert.ok(a.transpose() instanceof AsyncResult);
+      assert.deepEqual(await a.transpose(), Ok(Some(5)));
+
+      const b = Some(Err({ message: 'some error' })).toAsync() as AsyncOption<
+        Result<number, SomeErr>
+      >;
+      assert.deepEqual(await b.transpose(), Err({ message: 'some error' }));
+
+      const c = None.toAsync() as AsyncOption<Result<number, SomeErr>>;
+      assert.deepEqual(await c.transpose(), Ok(None));
+    });
+  });
+
+  describe('flatten', () => {
+    it('Converts from AsyncOption<Option<T>> to AsyncOption<T>.', async () => {
+      assert.deepEqual(await Some(Some(6)).toAsync().flatten(), Some(6));
+      assert.deepEqual(await Some(None).toAsync().flatten(), None);
+      assert.deepEqual(
+        await (None.toAsync() as AsyncOption<Option<number>>).flatten(),
+        None,
+      );
+    });
+  });
+
+  describe('fromPromise', () => {
+    it('Converts a Promise<T | undefined> into an AsyncOption<T>.', async () => {
+      const x = Option.fromPromise(Promise.resolve('foo'));
+      assert.deepEqual(await x, Some('foo'));
+
+      const y = Option.fromPromise(Promise.resolve(undefined));
+      assert.deepEqual(await y, None);
+
+      const z = Option.fromPromise(Promise.resolve(null));
+      assert.deepEqual(await z, Some(null));
+    });
+  });
+
+  describe('genAsync', () => {
+    it('Unwraps Options and AsyncOptions with yield* and short-circuits on the first None.', async () => {
+      const findUser = (id: number): AsyncOption<string> =>
+        Option.fromPromise(Promise.resolve(id === 1 ? 'alice' : undefined));
+
+      const initial = (id: number) =>
+        Option.genAsync(async function* () {
+          const name = yield* findUser(id).try();
+          const initial = yield* Option.fromUndefinable(name.at(0)).try();
+          return Some(initial);
+        });
+
+      const x: Option<string> = await initial(1);
+      assert.deepEqual(x, Some('a'));
+      assert.deepEqual(await initial(2), None);
+    });
+  });
+
+  describe('tap', () => {
+    it('Calls f with the contained value if Some, waits for it and resolves to the option unchanged.', async () => {
+      const saved: number[] = [];
+      const save = async (v: number): Promise<void> => {
+        await Promise.resolve();
+        saved.push(v);
+      };
+
+      const x = await Some(2)
+        .toAsync()
+        .tap(save)
+        .map((v) => {
+          assert.deepEqual(saved, [2]);
+          return v * 2;
+        });
+      assert.deepEqual(x, Some(4));
+
+      assert.deepEqual(
+        await (None.toAsync() as AsyncOption<number>).tap(save),
+        None,
+      );
+      assert.deepEqual(saved, [2]);
+    });
+
+    it('Rejects if f rejects.', async () => {
+      const x = Some(1)
+        .toAsync()
+        .tap(() => Promise.reject(new Error('boom')));
+      await assert.rejects(Promise.resolve(x), /boom/);
+    });
+
+    it('Keeps the type of the AsyncOption.', () => {
+      const x = Some(1)
+        .toAsync()
+        .tap((v) => v);
+      expectType<Equal<typeof x, AsyncOption<number>>>();
+    });
+  });
+});
@@ -0,0 +1,473 @@
+import {
+  AsyncOption,
+  AsyncResult,
+  Err,
+  None,
+  Ok,
+  Option,
+  Result,
+  Some,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+import { Equal, expectType } from './helpers';
+
+describe('AsyncResult', () => {
+  it('Chains async callbacks and resolves to a plain Result.', async () => {
+    const fetchUser = async (id: number): Promise<Result<string, string>> =>
+      id === 1 ? Ok('alice') : Err('not found');
+
+    const x = await Ok(1)
+      .toAsync()
+      .andThen(fetchUser)
+      .map(async (name) => name.toUpperCase());
+    assert.deepEqual(x, Ok('ALICE'));
+
+    const y = await Ok(2)
+      .toAsync()
+      .andThen(fetchUser)
+      .map(async (name) => name.toUpperCase());
+    assert.deepEqual(y, Err('not found'));
+  });
+
+  it('Rejects if a callback throws.', async () => {
+    const x = Ok(1)
+      .toAsync()
+      .map(() => {
+        throw new Error('boom');
+      });
+    await assert.rejects(Promise.resolve(x), /boom/);
+  });
+
+  describe('isOk', () => {
+    it('Resolves to true if the result is Ok.', async () => {
+      assert.equal(await Ok(-3).toAsync().isOk(), true);
+      assert.equal(await Err('Some error message').toAsync().isOk(), false);
+    });
+  });
+
+  describe('isErr', () => {
+    it('Resolves to true if the result is Err.', async () => {
+      assert.equal(await Ok(-3).toAsync().isErr(), false);
+      assert.equal(await Err('Some error message').toAsync().isErr(), true);
+    });
+  });
+
+  describe('ok', () => {
+    it('Converts from AsyncResult<T, E> to AsyncOption<T>.', async () => {
+      assert.deepEqual(await Ok(2).toAsync().ok(), Some(2));
+      assert.deepEqual(await Err('Nothing here').toAsync().ok(), None);
+    });
+  });
+
+  describe('err', () => {
+    it('Converts from AsyncResult<T, E> to AsyncOption<E>.', async () => {
+      assert.deepEqual(await Ok(2).toAsync().err(), None);
+      assert.deepEqual(
+        await Err('Nothing here').toAsync().err(),
+        Some('Nothing here'),
+      );
+    });
+  });
+
+  describe('map', () => {
+    it('Maps an AsyncResult<T, E> to AsyncResult<U, E> by applying a function to a contained Ok value, leaving an Err value untouched.', async () => {
+      const double = async (i: number): Promise<number> => i * 2;
+
+      assert.deepEqual(await Ok(3).toAsync().map(double), Ok(6));
+      assert.deepEqual(
+        await (Err('nan').toAsync() as AsyncResult<number, string>).map(double),
+        Err('nan'),
+      );
+      assert.deepEqual(await Ok(3).toAsync().map(String), Ok('3'));
+    });
+  });
+
+  describe('mapOr', () => {
+    it('Resolves to the provided default (if Err), or applies a function to the contained value (if Ok).', async () => {
+      const x = Ok('foo').toAsync();
+      assert.equal(await x.mapOr(42, async (v) => v.length), 3);
+
+      const y = Err('bar').toAsync() as AsyncResult<string, string>;
+      assert.equal(await y.mapOr(42, async (v) => v.length), 42);
+    });
+  });
+
+  describe('mapOrElse', () => {
+    it('Maps an AsyncResult<T, E> to U by applying fallback function default to a contained Err value, or function f to a contained Ok value.', async () => {
+      const k = 21;
+
+      const x = Ok('foo').toAsync() as AsyncResult<string, string>;
+      assert.equal(
+        await x.mapOrElse(
+          async () => k * 2,
+          (v) => v.length,
+        ),
+        3,
+      );
+
+      const y = Err('bar').toAsync() as AsyncResult<string, string>;
+      assert.equal(
+        await y.mapOrElse(
+          async () => k * 2,
+          (v) => v.length,
+        ),
+        42,
+      );
+    });
+  });
+
+  describe('mapErr', () => {
+    it('Maps an AsyncResult<T, E> to AsyncResult<T, F> by applying a function to a contained Err value, leaving an Ok value untouched.', async () => {
+      const stringify = async (x: number): Promise<string> =>
+        `error code: ${x}`;
+
+      assert.deepEqual(
+        await (Ok(2).toAsync() as AsyncResult<number, number>).mapErr(
+          stringify,
+        ),
+        Ok(2),
+      );
+      assert.deepEqual(
+        await Err(13).toAsync().mapErr(stringify),
+        Err('error code: 13'),
+      );
+    });
+  });
+
+  describe('and', () => {
+    it('Resolves to res if the result is Ok, otherwise to the Err value of this.', async () => {
+      const x = Ok(2).toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await x.and(Err('late error')), Err('late error'));
+
+      const y = Err('early error').toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(
+        await y.and(Promise.resolve(Ok('foo'))),
+        Err('early error'),
+      );
+
+      const z = Ok(2).toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await z.and(Ok('foo').toAsync()), Ok('foo'));
+    });
+  });
+
+  describe('andThen', () => {
+    it('Calls op if the result is Ok, otherwise resolves to the Err value of this.', async () => {
+      const evenThenToString = async (
+        x: number,
+      ): Promise<Result<string, string>> =>
+        x % 2 === 0 ? Ok(x.toString()) : Err(`${x} is not even`);
+
+      assert.deepEqual(
+        await Ok(2).toAsync().andThen(evenThenToString),
+        Ok('2'),
+      );
+      assert.deepEqual(
+        await Ok(5).toAsync().andThen(evenThenToString),
+        Err('5 is not even'),
+      );
+      assert.deepEqual(
+        await (
+          Err('not a number').toAsync() as AsyncResult<number, string>
+        ).andThen(evenThenToString),
+        Err('not a number'),
+      );
+    });
+
+    it('Accepts callbacks returning a Result or an AsyncResult.', async () => {
+      assert.deepEqual(
+        await Ok(2)
+          .toAsync()
+          .andThen((x) => Ok(x + 1))
+          .andThen((x) => Ok(x * 2).toAsync()),
+        Ok(6),
+      );
+    });
+  });
+
+  describe('or', () => {
+    it('Resolves to res if the result is Err, otherwise to the Ok value of this.', async () => {
+      const x = Ok(2).toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await x.or(Err('late error')), Ok(2));
+
+      const y = Err('early error').toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await y.or(Promise.resolve(Ok(2))), Ok(2));
+    });
+  });
+
+  describe('orElse', () => {
+    it('Calls op if the result is Err, otherwise resolves to the Ok value of this.', async () => {
+      const sq = async (x: number): Promise<Result<number, number>> =>
+        Ok(x * x);
+      const err = async (x: number): Promise<Result<number, number>> => Err(x);
+
+      assert.deepEqual(
+        await (Ok(2).toAsync() as AsyncResult<number, number>)
+          .orElse(sq)
+          .orElse(sq),
+        Ok(2),
+      );
+      assert.deepEqual(await Err(3).toAsync().orElse(sq).orElse(err), Ok(9));
+      assert.deepEqual(await Err(3).toAsync().orElse(err).orElse(err), Err(3));
+    });
+  });
+
+  describe('unwrapOr', () => {
+    it('Resolves to the contained Ok value or a provided default.', async () => {
+      assert.equal(await Ok(9).toAsync().unwrapOr(2), 9);
+      assert.equal(
+        await (Err('error').toAsync() as AsyncResult<number, string>).unwrapOr(
+          2,
+        ),
+        2,
+      );
+    });
+  });
+
+  describe('unwrapOrElse', () => {
+    it('Resolves to the contained Ok value or computes it from a closure.', async () => {
+      const count = async (x: string): Promise<number> => x.length;
+
+      assert.equal(
+        await (Ok(2).toAsync() as AsyncResult<number, string>).unwrapOrElse(
+          count,
+        ),
+        2,
+      );
+      assert.equal(await Err('foo').toAsync().unwrapOrElse(count), 3);
+    });
+  });
+
+  describe('Symbol.asyncIterator', () => {
+    it('Iterates over the possibly contained Ok value with for await.', async () => {
+      const values: number[] = [];
+      for await (const v of Ok(1).toAsync()) {
+        values.push(v);
+      }
+      for await (const v of (Err('e') as Result<number, string>).toAsync()) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1]);
+    });
+  });
+
+  describe('transpose', () => {
+    it('Transposes an AsyncResult of an Option into an AsyncOption of a Result.', async () => {
+      type SomeErr = { message: string };
+
+      const a = Ok(Some(5)).toAsync() as AsyncResult<Option<number>, SomeErr>;
+      assert.ok(a.transpose() instanceof AsyncOption);
+      assert.deepEqual(await a.transpose(), Some(Ok(5)));
+
+      const b = Ok(None).toAsync() as AsyncResult<Option<number>, SomeErr>;
+      assert.deepEqual(await b.transpose(), None);
+
+      const c = Err({ message: 'some error' }).toAsync() as AsyncResult<
+        Option<number>,
+        SomeErr
+      >;
+      assert.deepEqual(
+        await c.transpose(),
+        Some(Err({ message: 'some error' })),
+      );
+    });
+  });
+
+  describe('fromPromise', () => {
+    it('Converts a Promise<T> into an AsyncResult<T, E>.', async () => {
+      const x = Result.fromPromise(Promise.resolve(1));
+      assert.deepEqual(await x, Ok(1));
+
+      const y = Result.fromPromise(Promise.reject(new Error('boom')), (e) =>
+        String(e),
+      );
+      assert.deepEqual(await y, Err('Error: boom'));
+
+      const z = Result.fromPromise(Promise.reject('raw'));
+      assert.deepEqual(await z, Err('raw'));
+    });
+  });
+
+  describe('tryCatchAsync', () => {
+    it('Returns Ok with the fulfillment value, or Err with the rejection reason.', async () => {
+      const x = Result.tryCatchAsync(async () => 1);
+      assert.deepEqual(await x, Ok(1));
+
+      const y = Result.tryCatchAsync(
+        () => Promise.reject(new Error('not found')),
+        (e) => (e as Error).message,
+      );
+      assert.deepEqual(await y, Err('not found'));
+    });
+
+    it('Returns Err if f throws synchronously.', async () => {
+      const x = Result.tryCatchAsync(
+        (): Promise<number> => {
+          throw new Error('sync');
+        },
+        (e) => (e as Error).message,
+      );
+      assert.deepEqual(await x, Err('sync'));
+    });
+  });
+
+  describe('fromThrowableAsync', () => {
+    it('Wraps an async function that may reject into a function that returns an AsyncResult.', async () => {
+      const find = Result.fromThrowableAsync(
+        async (id: number): Promise<string> => {
+          if (id !== 1) {
+            throw new Error(`${id} not found`);
+          }
+          return 'alice';
+        },
+        (e) => (e as Error).message,
+      );
+
+      assert.deepEqual(await find(1), Ok('alice'));
+      assert.deepEqual(await find(2), Err('2 not found'));
+    });
+
+    it('Passes this through, so it can wrap a method.', async () => {
+      const repo = {
+        users: ['alice'],
+        find: Result.fromThrowableAsync(async function (
+          this: { users: string[] },
+          index: number,
+        ) {
+          return this.users[index];
+        }),
+      };
+
+      assert.deepEqual(await repo.find(0), Ok('alice'));
+    });
+  });
+
+  describe('genAsync', () => {
+    const fetchUser = (id: number): AsyncResult<string, 'not found'> =>
+      (id === 1
+        ? Ok('alice')
+        : Err('not found' as const)
+      ).toAsync() as AsyncResult<string, 'not found'>;
+    const fetchAge = async (name: string): Promise<Result<number, 'private'>> =>
+      name === 'alice' ? Ok(20) : Err('private');
+
+    it('Unwraps Results and AsyncResults with yield* and short-circuits on the first Err.', async () => {
+      const describe = (id: number) =>
+        Result.genAsync(async function* () {
+          const name = yield* fetchUser(id).try();
+          const age = yield* (await fetchAge(name)).try();
+          const next = yield* Ok(age + 1).try();
+          return Ok(`${name} (${next})`);
+        });
+
+      const x: Result<string, 'not found' | 'private'> = await describe(1);
+      assert.deepEqual(x, Ok('alice (21)'));
+      assert.deepEqual(await describe(2), Err('not found'));
+    });
+  });
+
+  describe('tap', () => {
+    it('Calls f with the contained value if Ok, waits for it and resolves to the result unchanged.', async () => {
+      const saved: number[] = [];
+      const save = async (v: number): Promise<void> => {
+        await Promise.resolve();
+        saved.push(v);
+      };
+
+      const x = await Ok(2)
+        .toAsync()
+        .tap(save)
+        .map((v) => {
+          assert.deepEqual(saved, [2]);
+          return v * 2;
+        });
+      assert.deepEqual(x, Ok(4));
+
+      const y = Err('e').toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await y.tap(save), Err('e'));
+      assert.deepEqual(saved, [2]);
+    });
+  });
+
+  describe('tapErr', () => {
+    it('Calls f with the contained error if Err, waits for it and resolves to the result unchanged.', async () => {
+      const reported: string[] = [];
+      const report = async (e: string): Promise<void> => {
+        await Promise.resolve();
+        reported.push(e);
+      };
+
+      const x = Err('not found').toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await x.tapErr(report), Err('not found'));
+      assert.deepEqual(reported, ['not found']);
+
+      const y = Ok(1).toAsync() as AsyncResult<number, string>;
+      assert.deepEqual(await y.tapErr(report), Ok(1));
+      assert.deepEqual(reported, ['not found']);
+    });
+
+    it('Keeps the type of the AsyncResult with tap and tapErr.', () => {
+      const x = Ok(1).toAsync() as AsyncResult<number, string>;
+      const y = x.tap((v) => v);
+      expectType<Equal<typeof y, AsyncResult<number, string>>>();
+      const z = x.tapErr((e) => e);
+      expectType<Equal<typeof z, AsyncResult<number, string>>>();
+    });
+  });
+
+  describe('andThen', () => {
+    it('Widens the error type to the union of both error types.', async () => {
+      const x = Ok('a').toAsync() as AsyncResult<string, 'empty'>;
+      const y: Result<number, 'empty' | 'nan'> = await x.andThen(
+        async (s): Promise<Result<number, 'nan'>> =>
+          Number.isNaN(Number(s)) ? Err('nan') : Ok(Number(s)),
+      );
+      assert.deepEqual(y, Err('nan'));
+    });
+  });
+
+  describe('convertErr', () => {
+    it('Converts the contained Err value with the from method of the target.', async () => {
+      class AppError extends Error {
+        static from(e: Error): AppError {
+          return new AppError(e.message, { cause: e });
+        }
+      }
+
+      const x = Result.fromPromise(
+        Promise.reject(new TypeError('boom')),
+        (e) => e as TypeError,
+      );
+      const y: Result<never, AppError> = await x.convertErr(AppError);
+      assert.equal(
+        y.isErrAnd((e) => e.cause instanceof TypeError),
+        true,
+      );
+
+      const z = Ok(1).toAsync() as AsyncResult<number, TypeError>;
+      assert.deepEqual(await z.convertErr(AppError), Ok(1));
+    });
+  });
+
+  describe('toPromise', () => {
+    it('Resolves to the Ok value or rejects with the Err value.', async () => {
+      assert.equal(await Ok(2).toAsync().toPromise(), 2);
+      await assert.rejects(
+        Err('boom')
+          .toAsync()
+          .toPromise((e) => new Error(e)),
+        { message: 'boom' },
+      );
+    });
+
+    it('Rejects with the error thrown by mapErr.', async () => {
+      await assert.rejects(
+        Err('boom')
+          .toAsync()
+          .toPromise(() => {
+            throw new Error('mapErr');
+          }),
+        { message: 'mapErr' },
+      );
+    });
+  });
+});
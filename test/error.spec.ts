@@ -0,0 +1,184 @@
+import {
+  defineError,
+  Err,
+  formatErrorChain,
+  Ok,
+  Result,
+  TaggedError,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+
+const NotFound = defineError(
+  'NotFound',
+  (f: { id: number }) => `${f.id} not found`,
+);
+type NotFound = InstanceType<typeof NotFound>;
+
+const Forbidden = defineError('Forbidden');
+type Forbidden = InstanceType<typeof Forbidden>;
+
+describe('error', () => {
+  describe('TaggedError', () => {
+    it('Uses the tag as the name.', () => {
+      const e = new TaggedError('Timeout', 'timed out');
+      assert.equal(e._tag, 'Timeout');
+      assert.equal(e.name, 'Timeout');
+      assert.equal(e.message, 'timed out');
+      assert.equal(e instanceof Error, true);
+    });
+
+    it('Chains the cause.', () => {
+      const cause = new Error('socket hang up');
+      const e = new TaggedError('Timeout', 'timed out', { cause });
+      assert.equal(e.cause, cause);
+    });
+  });
+
+  describe('defineError', () => {
+    it('Defines a class with the tag, the fields and the message.', () => {
+      const e = new NotFound({ id: 1 });
+      assert.equal(e._tag, 'NotFound');
+      assert.equal(e.name, 'NotFound');
+      assert.equal(e.id, 1);
+      assert.equal(e.message, '1 not found');
+      assert.equal(e instanceof NotFound, true);
+      assert.equal(e instanceof TaggedError, true);
+      assert.equal(NotFound.name, 'NotFound');
+      assert.equal(NotFound.tag, 'NotFound');
+    });
+
+    it('Defines a class without fields.', () => {
+      const e = new Forbidden();
+      assert.equal(e._tag, 'Forbidden');
+      assert.equal(e.message, '');
+      assert.equal(e instanceof NotFound, false);
+    });
+
+    it('Builds the message of a class without fields.', () => {
+      const Denied = defineError('Denied', () => 'access denied');
+      assert.equal(new Denied().message, 'access denied');
+    });
+
+    it('Does not let the fields overwrite the tag, the name or the message.', () => {
+      // @ts-expect-error `_tag` is reserved.
+      defineError('Event', (f: { _tag: string }) => f._tag);
+      // @ts-expect-error `message` is reserved.
+      defineError('Event', (f: { message: string }) => f.message);
+
+      const Event = defineError(
+        'Event',
+        (f: { id: number }) => `event ${f.id}`,
+      );
+      const e = new Event({
+        id: 1,
+        _tag: 'Other',
+        name: 'Other',
+        message: 'hijack',
+      } as { id: number });
+      assert.equal(e._tag, 'Event');
+      assert.equal(e.name, 'Event');
+      assert.equal(e.message, 'event 1');
+      assert.equal(e.id, 1);
+    });
+
+    it('Passes the cause to Error.', () => {
+      const cause = new Error('db down');
+      const e = new NotFound({ id: 1 }, { cause });
+      assert.equal(e.cause, cause);
+    });
+
+    it('Narrows the error union by the tag.', () => {
+      const x = Err(new NotFound({ id: 2 })) as Result<
+        string,
+        NotFound | Forbidden
+      >;
+      const y = x.mapErr((e) => (e._tag === 'NotFound' ? e.id : -1));
+      assert.deepEqual(y, Err(2));
+    });
+  });
+
+  describe('formatErrorChain', () => {
+    it('Formats the error and its causes.', () => {
+      const db = new Error('connection refused');
+      const e = new NotFound({ id: 1 }, { cause: db });
+      assert.equal(
+        formatErrorChain(e),
+        'NotFound: 1 not found\n  caused by: Error: connection refused',
+      );
+    });
+
+    it('Formats non-error values with String.', () => {
+      const e = new Error('outer', { cause: 'inner' });
+      assert.equal(formatErrorChain(e), 'Error: outer\n  caused by: inner');
+      assert.equal(formatErrorChain(42), '42');
+    });
+
+    it('Stops at a cycle.', () => {
+      const a = new Error('a');
+      const b = new Error('b', { cause: a });
+      Object.assign(a, { cause: b });
+      assert.equal(formatErrorChain(a), 'Error: a\n  caused by: Error: b');
+    });
+  });
+
+  describe('catchTag', () => {
+    const find = (id: number): Result<string, NotFound | Forbidden> =>
+      id === 0 ? Err(new Forbidden()) : Err(new NotFound({ id }));
+
+    it('Calls the handler for the errors with the tag.', () => {
+      const x: Result<string, Forbidden> = find(1).catchTag('NotFound', (e) =>
+        Ok(`guest ${e.id}`),
+      );
+      assert.deepEqual(x, Ok('guest 1'));
+    });
+
+    it('Returns the other results as they are.', () => {
+      const x = find(0).catchTag('NotFound', (e) => Ok(`guest ${e.id}`));
+      assert.equal(
+        x.isErrAnd((e) => e._tag === 'Forbidden'),
+        true,
+      );
+      assert.deepEqual(
+        (Ok('a') as Result<string, NotFound>).catchTag('NotFound', () =>
+          Ok('b'),
+        ),
+        Ok('a'),
+      );
+    });
+
+    it('Removes every handled tag from the error type.', () => {
+      const x: Result<string, never> = find(0)
+        .catchTag('NotFound', () => Ok('not found'))
+        .catchTag('Forbidden', () => Ok('forbidden'));
+      assert.deepEqual(x, Ok('forbidden'));
+    });
+
+    it('Can be used with orElse as Result.catchTag.', () => {
+      const x: Result<string, Forbidden> = find(1).orElse(
+        Result.catchTag('NotFound', (e: NotFound) => Ok(`guest ${e.id}`)),
+      );
+      assert.deepEqual(x, Ok('guest 1'));
+
+      const y: Result<string, Forbidden | string> = find(2).orElse(
+        Result.catchTag('NotFound', (e: NotFound) => Err(`lost ${e.id}`)),
+      );
+      assert.deepEqual(y, Err('lost 2'));
+    });
+
+    it('Ignores values without the tag.', () => {
+      const x = Err('NotFound') as Result<number, string>;
+      assert.deepEqual(
+        x.orElse(Result.catchTag('NotFound', () => Ok(1))),
+        Err('NotFound'),
+      );
+    });
+
+    it('Is available on AsyncResult.', async () => {
+      const x = find(1)
+        .toAsync()
+        .catchTag('NotFound', async (e) => Ok(e.id));
+      const y: Result<string | number, Forbidden> = await x;
+      assert.deepEqual(y, Ok(1));
+    });
+  });
+});
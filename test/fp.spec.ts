@@ -0,0 +1,231 @@
+import { Err, None, Ok, Option, Result, Some } from '@schrosis/rus-ts';
+import { flow, pipe } from '@schrosis/rus-ts/fp';
+import * as O from '@schrosis/rus-ts/fp/option';
+import * as R from '@schrosis/rus-ts/fp/result';
+import assert from 'assert';
+
+describe('fp', () => {
+  describe('pipe', () => {
+    it('Passes the value through the functions from left to right.', () => {
+      assert.equal(pipe(1), 1);
+      assert.equal(
+        pipe(
+          1,
+          (n) => n + 1,
+          (n) => n * 3,
+          String,
+        ),
+        '6',
+      );
+    });
+  });
+
+  describe('flow', () => {
+    it('Composes the functions from left to right.', () => {
+      const f = flow(
+        (a: number, b: number) => a + b,
+        (n) => n * 2,
+        (n) => `${n}`,
+      );
+      assert.equal(f(1, 2), '6');
+    });
+  });
+
+  describe('option', () => {
+    it('Infers the types of the curried functions in pipe.', () => {
+      const x: number = pipe(
+        Some(2) as Option<number>,
+        O.map((n) => n * 2),
+        O.filter((n) => n > 3),
+        O.andThen((n) => (n > 10 ? None : Some(n))),
+        O.unwrapOr(0),
+      );
+      assert.equal(x, 4);
+    });
+
+    it('Returns what the methods return.', () => {
+      const cases: [
+        (x: Option<number>) => unknown,
+        (x: Option<number>) => unknown,
+      ][] = [
+        [O.isSomeAnd((n) => n > 0), (x) => x.isSomeAnd((n) => n > 0)],
+        [O.isNoneOr((n) => n > 1), (x) => x.isNoneOr((n) => n > 1)],
+        [O.unwrapOr(0), (x) => x.unwrapOr(0)],
+        [O.unwrapOrElse(() => 0), (x) => x.unwrapOrElse(() => 0)],
+        [O.map((n) => n + 1), (x) => x.map((n) => n + 1)],
+        [O.mapOr(0, (n) => n + 1), (x) => x.mapOr(0, (n) => n + 1)],
+        [O.okOrElse(() => 'e'), (x) => x.okOrElse(() => 'e')],
+        [O.and(Some('a')), (x) => x.and(Some('a'))],
+        [O.andThen((n) => Some(n + 1)), (x) => x.andThen((n) => Some(n + 1))],
+        [O.filter((n) => n > 1), (x) => x.filter((n) => n > 1)],
+        [O.or(Some(2)), (x) => x.or(Some(2))],
+        [O.orElse(() => Some(2)), (x) => x.orElse(() => Some(2))],
+        [O.xor(Some(2)), (x) => x.xor(Some(2))],
+        [O.xor(None), (x) => x.xor(None)],
+        [
+          O.zipWith(Some(2), (a, b) => a + b),
+          (x) => x.zipWith(Some(2), (a, b) => a + b),
+        ],
+        [O.compare(Some(0)), (x) => x.compare(Some(0))],
+        [O.hash(), (x) => x.hash()],
+        [(x) => [...O.iter(x)], (x) => [...x.iter()]],
+        [O.toNullable, (x) => x.toNullable()],
+        [O.toUndefinable, (x) => x.toUndefinable()],
+        [O.toJSON, (x) => x.toJSON()],
+      ];
+      for (const x of [Some(1), None] as Option<number>[]) {
+        for (const [f, method] of cases) {
+          assert.deepStrictEqual(f(x), method(x));
+        }
+      }
+      assert.deepStrictEqual(O.transpose(Some(Err('e'))), Err('e'));
+      assert.deepStrictEqual(O.transpose(None), Ok(None));
+      assert.throws(() => pipe(None, O.expect('no value')), {
+        message: 'no value',
+      });
+    });
+
+    it('Does not call the methods.', () => {
+      const x = Object.create(
+        { [Symbol.for('@schrosis/rus-ts/variant')]: 'Some' },
+        { value: { value: 1 } },
+      ) as Option<number>;
+      assert.deepStrictEqual(
+        pipe(
+          x,
+          O.map((n) => n + 1),
+        ),
+        Some(2),
+      );
+      assert.equal(pipe(x, O.unwrapOr(0)), 1);
+    });
+
+    it('Handles both variants.', () => {
+      const x = Some(1) as Option<number>;
+      assert.equal(O.isSome(x), true);
+      assert.equal(O.isNone(x), false);
+      assert.equal(pipe(x, O.contains(1)), true);
+      assert.deepEqual(pipe(x, O.okOr('none')), Ok(1));
+      assert.deepEqual(pipe(x, O.zip(Some('a'))), Some([1, 'a']));
+      assert.deepEqual(O.flatten(Some(Some(1))), Some(1));
+      assert.deepEqual(O.unzip(Some([1, 'a'] as [number, string])), [
+        Some(1),
+        Some('a'),
+      ]);
+      assert.equal(pipe(x, O.match({ Some: (n) => n + 1, None: () => 0 })), 2);
+      assert.equal(pipe(x, O.equals(Some(1))), true);
+      assert.equal(pipe(None as Option<number>, O.compare(x)), -1);
+      assert.equal(pipe(x, O.hash()), x.hash());
+    });
+  });
+
+  describe('result', () => {
+    const parse = (s: string): Result<number, string> =>
+      Number.isNaN(Number(s)) ? Err(`${s} is not a number`) : Ok(Number(s));
+
+    it('Infers the types of the curried functions in flow.', () => {
+      const f = flow(
+        parse,
+        R.andThen((n) => (n > 0 ? Ok(n) : Err(n))),
+        R.map((n) => n * 2),
+        R.mapErr((e) => `error: ${e}`),
+      );
+      const x: Result<number, string> = f('2');
+      assert.deepEqual(x, Ok(4));
+      assert.deepEqual(f('-1'), Err('error: -1'));
+      assert.deepEqual(f('a'), Err('error: a is not a number'));
+    });
+
+    it('Returns what the methods return.', () => {
+      const cases: [
+        (x: Result<number, string>) => unknown,
+        (x: Result<number, string>) => unknown,
+      ][] = [
+        [R.isOkAnd((n) => n > 0), (x) => x.isOkAnd((n) => n > 0)],
+        [R.isErrAnd((e) => e === 'e'), (x) => x.isErrAnd((e) => e === 'e')],
+        [R.contains(1), (x) => x.contains(1)],
+        [R.containsErr('e'), (x) => x.containsErr('e')],
+        [R.map((n) => n + 1), (x) => x.map((n) => n + 1)],
+        [R.mapOr(0, (n) => n + 1), (x) => x.mapOr(0, (n) => n + 1)],
+        [
+          R.mapOrElse(
+            (e) => e.length,
+            (n) => n + 1,
+          ),
+          (x) =>
+            x.mapOrElse(
+              (e) => e.length,
+              (n) => n + 1,
+            ),
+        ],
+        [R.mapErr((e) => e.length), (x) => x.mapErr((e) => e.length)],
+        [R.and(Ok('a')), (x) => x.and(Ok('a'))],
+        [R.andThen((n) => Ok(n + 1)), (x) => x.andThen((n) => Ok(n + 1))],
+        [R.or(Ok(2)), (x) => x.or(Ok(2))],
+        [R.unwrapOr(0), (x) => x.unwrapOr(0)],
+        [R.equals(Err('e')), (x) => x.equals(Err('e'))],
+        [R.compare(Err('f')), (x) => x.compare(Err('f'))],
+        [R.hash(), (x) => x.hash()],
+        [(x) => [...R.iter(x)], (x) => [...x.iter()]],
+        [R.toJSON, (x) => x.toJSON()],
+      ];
+      for (const x of [Ok(1), Err('e')] as Result<number, string>[]) {
+        for (const [f, method] of cases) {
+          assert.deepStrictEqual(f(x), method(x));
+        }
+      }
+      assert.deepStrictEqual(R.transpose(Err('e')), Some(Err('e')));
+      assert.deepStrictEqual(R.transpose(Ok(None)), None);
+    });
+
+    it('Rejects with the converted error in toPromise.', async () => {
+      await assert.rejects(
+        pipe(
+          Err('boom') as Result<number, string>,
+          R.toPromise((e) => new Error(e)),
+        ),
+        { message: 'boom' },
+      );
+    });
+
+    it('Handles both variants.', () => {
+      const x = Ok(1) as Result<number, string>;
+      const y = Err('e') as Result<number, string>;
+      assert.equal(R.isOk(x), true);
+      assert.equal(R.isErr(y), true);
+      assert.deepEqual(R.ok(x), Some(1));
+      assert.deepEqual(R.err(y), Some('e'));
+      assert.equal(
+        pipe(
+          y,
+          R.unwrapOrElse((e) => e.length),
+        ),
+        1,
+      );
+      assert.deepEqual(
+        pipe(
+          y,
+          R.orElse(() => Ok(2)),
+        ),
+        Ok(2),
+      );
+      assert.deepEqual(R.flatten(Ok(Ok(1))), Ok(1));
+      assert.deepEqual(R.transpose(Ok(Some(1))), Some(Ok(1)));
+      assert.equal(pipe(y, R.match({ Ok: (n) => n, Err: (e) => e })), 'e');
+      assert.equal(pipe(x, R.equals(Ok(1))), true);
+      assert.equal(pipe(x, R.compare(y)), -1);
+    });
+
+    it('Removes handled tags with catchTag.', () => {
+      class NotFound extends Error {
+        readonly _tag = 'NotFound';
+      }
+      const x = Err(new NotFound()) as Result<number, NotFound | string>;
+      const y: Result<number, string> = pipe(
+        x,
+        R.catchTag('NotFound', (e: NotFound) => Ok(e.message.length)),
+      );
+      assert.deepEqual(y, Ok(0));
+    });
+  });
+});
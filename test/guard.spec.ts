@@ -0,0 +1,124 @@
+import {
+  Err,
+  isErr,
+  isNone,
+  isOk,
+  isOption,
+  isResult,
+  isSome,
+  None,
+  Ok,
+  Option,
+  Result,
+  Some,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+
+// NOTE: Imitates a value created by another copy of this package.
+const foreign = (variant: string, value?: unknown) =>
+  Object.create(
+    { [Symbol.for('@schrosis/rus-ts/variant')]: variant },
+    {
+      value: { value },
+    },
+  );
+
+const values: unknown[] = [
+  undefined,
+  null,
+  1,
+  'Some',
+  {},
+  { value: 1 },
+  [Some(1)],
+];
+
+describe('guard', () => {
+  describe('isOption', () => {
+    it('Returns true for Some and None.', () => {
+      assert.equal(isOption(Some(1)), true);
+      assert.equal(isOption(None), true);
+      assert.equal(isOption(Ok(1)), false);
+      assert.equal(isOption(Err(1)), false);
+      values.forEach((v) => assert.equal(isOption(v), false));
+    });
+
+    it('Narrows unknown values.', () => {
+      const x: unknown = Some(2);
+      if (isOption(x)) {
+        assert.deepEqual(
+          x.map((v) => v),
+          Some(2),
+        );
+      } else {
+        assert.fail();
+      }
+    });
+  });
+
+  describe('isResult', () => {
+    it('Returns true for Ok and Err.', () => {
+      assert.equal(isResult(Ok(1)), true);
+      assert.equal(isResult(Err(1)), true);
+      assert.equal(isResult(Some(1)), false);
+      assert.equal(isResult(None), false);
+      values.forEach((v) => assert.equal(isResult(v), false));
+    });
+  });
+
+  describe('variants', () => {
+    it('Checks the variant.', () => {
+      assert.equal(isSome(Some(undefined)), true);
+      assert.equal(isSome(None), false);
+      assert.equal(isNone(None), true);
+      assert.equal(isNone(Some(1)), false);
+      assert.equal(isOk(Ok(1)), true);
+      assert.equal(isOk(Err(1)), false);
+      assert.equal(isErr(Err(1)), true);
+      assert.equal(isErr(Ok(1)), false);
+      values.forEach((v) =>
+        assert.equal(isSome(v) || isNone(v) || isOk(v) || isErr(v), false),
+      );
+    });
+
+    it('Narrows options and results keeping the contained type.', () => {
+      const x = Some(1) as Option<number>;
+      const y = Err('e') as Result<number, string>;
+      if (isSome(x) && isErr(y)) {
+        const v: number = x.value;
+        const e: string = y.value;
+        assert.deepEqual([v, e], [1, 'e']);
+      } else {
+        assert.fail();
+      }
+    });
+
+    it('Recognizes values from another copy of the package.', () => {
+      assert.equal(isSome(foreign('Some', 1)), true);
+      assert.equal(isOption(foreign('None')), true);
+      assert.equal(isErr(foreign('Err', 'e')), true);
+      assert.equal(isResult(foreign('Nope')), false);
+    });
+  });
+
+  describe('instanceof', () => {
+    it('Checks the variant.', () => {
+      assert.equal(Some(1) instanceof Some, true);
+      assert.equal((None as unknown) instanceof Some, false);
+      assert.equal(Ok(1) instanceof Ok, true);
+      assert.equal((Ok(1) as unknown) instanceof Err, false);
+      assert.equal(Err(1) instanceof Err, true);
+      assert.equal(foreign('Ok', 1) instanceof Ok, true);
+      assert.equal((1 as unknown) instanceof Ok, false);
+    });
+
+    it('Checks None, which is not a function.', () => {
+      // NOTE: TypeScript 4.8 only accepts functions on the right of `instanceof`.
+      const NoneType = None as unknown as () => void;
+      assert.equal(None instanceof NoneType, true);
+      assert.equal(Some(1) instanceof NoneType, false);
+      assert.equal(foreign('None') instanceof NoneType, true);
+      assert.equal((null as unknown) instanceof NoneType, false);
+    });
+  });
+});
@@ -0,0 +1,8 @@
+// NOTE: Type-level assertions are checked by the compiler; a failing one does not compile.
+export type Equal<X, Y> = (<T>() => T extends X ? 1 : 2) extends <
+  T,
+>() => T extends Y ? 1 : 2
+  ? true
+  : false;
+
+export const expectType = <T extends true>(): T => true as T;
@@ -0,0 +1,231 @@
+import {
+  Err,
+  jsonReplacer,
+  jsonReviver,
+  None,
+  Ok,
+  Option,
+  Result,
+  Some,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+
+const isNumber = (v: unknown): v is number => typeof v === 'number';
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+describe('toJSON', () => {
+  it('Serializes Option and Result in the tagged format.', () => {
+    assert.equal(JSON.stringify(Some(1)), '{"$type":"Some","value":1}');
+    assert.equal(JSON.stringify(None), '{"$type":"None"}');
+    assert.equal(JSON.stringify(Ok(1)), '{"$type":"Ok","value":1}');
+    assert.equal(JSON.stringify(Err('e')), '{"$type":"Err","value":"e"}');
+  });
+
+  it('Serializes nested values.', () => {
+    assert.equal(
+      JSON.stringify({ a: Ok(Some(1)), b: [None] }),
+      '{"a":{"$type":"Ok","value":{"$type":"Some","value":1}},"b":[{"$type":"None"}]}',
+    );
+  });
+});
+
+describe('Option.fromJSON', () => {
+  it('Rebuilds an Option from the tagged format.', () => {
+    assert.deepStrictEqual(
+      Option.fromJSON(JSON.parse(JSON.stringify(Some(1)))),
+      Ok(Some(1)),
+    );
+    assert.deepStrictEqual(
+      Option.fromJSON(JSON.parse(JSON.stringify(None))),
+      Ok(None),
+    );
+  });
+
+  it('Reads a missing value as undefined.', () => {
+    assert.equal(JSON.stringify(Some(undefined)), '{"$type":"Some"}');
+    assert.deepStrictEqual(
+      Option.fromJSON(JSON.parse(JSON.stringify(Some(undefined)))),
+      Ok(Some(undefined)),
+    );
+  });
+
+  it('Returns Err if the value does not have the expected shape.', () => {
+    assert.equal(Option.fromJSON({ value: 1 }).isErr(), true);
+    assert.equal(Option.fromJSON({ $type: 'None', value: 1 }).isErr(), true);
+    assert.deepStrictEqual(
+      Option.fromJSON({ $type: 'Ok', value: 1 })
+        .err()
+        .map((e) => e instanceof TypeError),
+      Some(true),
+    );
+    assert.equal(Option.fromJSON(null).isErr(), true);
+  });
+
+  it('Validates the contained value.', () => {
+    const x: Result<Option<number>, TypeError> = Option.fromJSON(
+      { $type: 'Some', value: 1 },
+      { value: isNumber },
+    );
+    assert.deepStrictEqual(x, Ok(Some(1)));
+    assert.equal(
+      Option.fromJSON(
+        { $type: 'Some', value: '1' },
+        { value: isNumber },
+      ).isErr(),
+      true,
+    );
+  });
+
+  it('Rebuilds an Option from the serde format.', () => {
+    assert.deepStrictEqual(
+      Option.fromJSON(1, { format: 'serde' }),
+      Ok(Some(1)),
+    );
+    assert.deepStrictEqual(
+      Option.fromJSON(null, { format: 'serde' }),
+      Ok(None),
+    );
+    assert.equal(
+      Option.fromJSON('1', { format: 'serde', value: isNumber }).isErr(),
+      true,
+    );
+  });
+});
+
+describe('Result.fromJSON', () => {
+  it('Rebuilds a Result from the tagged format.', () => {
+    assert.deepStrictEqual(
+      Result.fromJSON(JSON.parse(JSON.stringify(Ok(1)))),
+      Ok(Ok(1)),
+    );
+    assert.deepStrictEqual(
+      Result.fromJSON(JSON.parse(JSON.stringify(Err('e')))),
+      Ok(Err('e')),
+    );
+  });
+
+  it('Reads a missing value as undefined.', () => {
+    assert.equal(JSON.stringify(Ok(undefined)), '{"$type":"Ok"}');
+    assert.deepStrictEqual(
+      Result.fromJSON(JSON.parse(JSON.stringify(Ok(undefined)))),
+      Ok(Ok(undefined)),
+    );
+    assert.deepStrictEqual(
+      Result.fromJSON({ $type: 'Err' }),
+      Ok(Err(undefined)),
+    );
+  });
+
+  it('Returns Err if the value does not have the expected shape.', () => {
+    assert.equal(Result.fromJSON({ value: 1 }).isErr(), true);
+    assert.equal(Result.fromJSON({ $type: 'Some', value: 1 }).isErr(), true);
+    assert.equal(
+      Result.fromJSON({ $type: 'Ok', value: 1, extra: 1 }).isErr(),
+      true,
+    );
+    assert.equal(Result.fromJSON([]).isErr(), true);
+  });
+
+  it('Validates the contained values.', () => {
+    const options = { ok: isNumber, err: isString };
+    const x: Result<Result<number, string>, TypeError> = Result.fromJSON(
+      { $type: 'Err', value: 'e' },
+      options,
+    );
+    assert.deepStrictEqual(x, Ok(Err('e')));
+    assert.equal(
+      Result.fromJSON({ $type: 'Ok', value: '1' }, options).isErr(),
+      true,
+    );
+    assert.equal(
+      Result.fromJSON({ $type: 'Err', value: 1 }, options).isErr(),
+      true,
+    );
+  });
+
+  it('Rebuilds a Result from the serde format.', () => {
+    assert.deepStrictEqual(
+      Result.fromJSON({ Ok: 1 }, { format: 'serde' }),
+      Ok(Ok(1)),
+    );
+    assert.deepStrictEqual(
+      Result.fromJSON({ Err: 'e' }, { format: 'serde' }),
+      Ok(Err('e')),
+    );
+    assert.equal(
+      Result.fromJSON({ Ok: 1, Err: 'e' }, { format: 'serde' }).isErr(),
+      true,
+    );
+    assert.equal(
+      Result.fromJSON({ $type: 'Ok', value: 1 }, { format: 'serde' }).isErr(),
+      true,
+    );
+  });
+});
+
+describe('jsonReplacer', () => {
+  it('Serializes Option and Result in the serde format.', () => {
+    assert.equal(
+      JSON.stringify(
+        { a: Ok(Some(1)), b: Err('e'), c: None, d: [Some(Ok(2))] },
+        jsonReplacer({ format: 'serde' }),
+      ),
+      '{"a":{"Ok":1},"b":{"Err":"e"},"c":null,"d":[{"Ok":2}]}',
+    );
+  });
+
+  it('Keeps the toJSON output of other values in the serde format.', () => {
+    const date = new Date(0);
+    assert.equal(
+      JSON.stringify(
+        { d: date, a: Some(date), b: Ok({ d: date }), c: Some(Some(date)) },
+        jsonReplacer({ format: 'serde' }),
+      ),
+      JSON.stringify({ d: date, a: date, b: { Ok: { d: date } }, c: date }),
+    );
+    assert.equal(
+      JSON.stringify(Some(date), jsonReplacer({ format: 'serde' })),
+      JSON.stringify(date),
+    );
+  });
+
+  it('Leaves the tagged format as it is.', () => {
+    assert.equal(
+      JSON.stringify(Some(1), jsonReplacer()),
+      JSON.stringify(Some(1)),
+    );
+  });
+});
+
+describe('jsonReviver', () => {
+  it('Rebuilds nested Options and Results from the tagged format.', () => {
+    const value = { a: Some(Ok(1)), b: [None, Err('e')], c: { $type: 'x' } };
+    assert.deepStrictEqual(
+      JSON.parse(JSON.stringify(value), jsonReviver()),
+      value,
+    );
+
+    const x = JSON.parse(JSON.stringify(Some(1)), jsonReviver());
+    assert.equal(x.isSome(), true);
+  });
+
+  it('Round-trips undefined values.', () => {
+    const value = { a: Ok(undefined), b: Some(undefined), c: Err(undefined) };
+    assert.deepStrictEqual(
+      JSON.parse(JSON.stringify(value), jsonReviver()),
+      value,
+    );
+  });
+
+  it('Rebuilds Results from the serde format.', () => {
+    const json = JSON.stringify(
+      { a: Ok(Some(1)), b: Err('e'), c: None },
+      jsonReplacer({ format: 'serde' }),
+    );
+    assert.deepStrictEqual(JSON.parse(json, jsonReviver({ format: 'serde' })), {
+      a: Ok(1),
+      b: Err('e'),
+      c: null,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { Err, match, None, Ok, Option, Result, Some } from '@schrosis/rus-ts';
+import assert from 'assert';
+
+describe('match', () => {
+  describe('Option.match', () => {
+    it('Returns the result of the arm that corresponds to the variant.', () => {
+      const describe = (x: Option<number>): string | number =>
+        x.match({
+          Some: (v) => v * 2,
+          None: () => 'nothing',
+        });
+
+      assert.equal(describe(Some(2)), 4);
+      assert.equal(describe(None), 'nothing');
+    });
+
+    it('Requires both arms.', () => {
+      const x = None as Option<number>;
+      // @ts-expect-error None arm is missing
+      assert.throws(() => x.match({ Some: (v) => v }), TypeError);
+    });
+  });
+
+  describe('Result.match', () => {
+    it('Returns the result of the arm that corresponds to the variant.', () => {
+      const describe = (x: Result<number, string>): number | string =>
+        x.match({
+          Ok: (v) => v * 2,
+          Err: (e) => `error: ${e}`,
+        });
+
+      assert.equal(describe(Ok(2)), 4);
+      assert.equal(describe(Err('oops')), 'error: oops');
+    });
+  });
+
+  describe('match', () => {
+    const describe = (x: Option<number>): string =>
+      match(x)
+        .when(
+          'Some',
+          (v) => v > 10,
+          (v) => `big ${v}`,
+        )
+        .with('Some', (v) => `small ${v}`)
+        .with('None', () => 'nothing')
+        .exhaustive();
+
+    it('Takes the first arm that matches.', () => {
+      assert.equal(describe(Some(42)), 'big 42');
+      assert.equal(describe(Some(3)), 'small 3');
+      assert.equal(describe(None), 'nothing');
+    });
+
+    it('Matches Result values.', () => {
+      const r = Err('oops') as Result<number, string>;
+      assert.equal(
+        match(r)
+          .with('Ok', (v) => v)
+          .with('Err', (e) => e.length)
+          .exhaustive(),
+        4,
+      );
+
+      const s = Ok(2) as Result<number, string>;
+      const out: number | string = match(s)
+        .with('Err', (e) => e)
+        .with('Ok', (v) => v)
+        .exhaustive();
+      assert.equal(out, 2);
+    });
+
+    it('Narrows the value with a type guard.', () => {
+      const x = Some('foo') as Option<string | number>;
+      assert.equal(
+        match(x)
+          .when(
+            'Some',
+            (v): v is string => typeof v === 'string',
+            (v) => v.toUpperCase(),
+          )
+          .with('Some', (v) => String(v))
+          .with('None', () => '')
+          .exhaustive(),
+        'FOO',
+      );
+    });
+
+    it('Is not exhaustive until every variant is covered by an unguarded arm.', () => {
+      const x = None as Option<number>;
+
+      const m = match(x)
+        .when(
+          'Some',
+          (v) => v > 10,
+          (v) => v,
+        )
+        .with('None', () => 0);
+      // @ts-expect-error Some is only covered by a guarded arm
+      m.exhaustive();
+
+      assert.equal(
+        match(Some(3) as Option<number>)
+          .when(
+            'Some',
+            (v) => v > 10,
+            (v) => v,
+          )
+          .otherwise(() => -1),
+        -1,
+      );
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { None, Option, PathValue, Some } from '@schrosis/rus-ts';
+import assert from 'assert';
+import { Equal, expectType } from './helpers';
+
+type Config = {
+  db?: { replicas: { host: string | null; port?: number }[] };
+  name: string;
+};
+
+describe('Option access', () => {
+  describe('path', () => {
+    it('Returns Some of the value at the path, keeping null values that are present.', () => {
+      const cfg: Config = { db: { replicas: [{ host: null }] }, name: 'app' };
+      const x = Option.path(cfg, ['db', 'replicas', 0, 'host']);
+      expectType<Equal<typeof x, Option<string | null>>>();
+      assert.deepEqual(x, Some(null));
+      assert.deepEqual(Option.path(cfg, ['name']), Some('app'));
+      assert.deepEqual(Option.path(cfg, []), Some(cfg));
+    });
+
+    it('Returns None if a property on the way is absent.', () => {
+      const cfg: Config = { db: { replicas: [{ host: 'a' }] }, name: 'app' };
+      assert.deepEqual(Option.path(cfg, ['db', 'replicas', 1, 'host']), None);
+      assert.deepEqual(Option.path(cfg, ['db', 'replicas', 0, 'port']), None);
+      assert.deepEqual(Option.path({ name: 'app' } as Config, ['db']), None);
+      assert.deepEqual(
+        Option.path({ a: null } as { a: { b: number } | null }, ['a', 'b']),
+        None,
+      );
+    });
+
+    it('Looks up inherited properties and getters.', () => {
+      class Box {
+        constructor(private readonly items: number[]) {}
+
+        get size(): number {
+          return this.items.length;
+        }
+      }
+      const x = Option.path({ box: new Box([1, 2]) }, ['box', 'size']);
+      expectType<Equal<typeof x, Option<number>>>();
+      assert.deepEqual(x, Some(2));
+      assert.deepEqual(Option.path([1], ['length']), Some(1));
+      assert.deepEqual(Option.path('ab', ['length']), Some(2));
+      assert.deepEqual(Option.path({ a: 1 }, ['b']), None);
+    });
+
+    it('Does not look up inherited properties of plain objects.', () => {
+      const json = JSON.parse('{"a":{"b":1}}');
+      assert.deepStrictEqual(Option.path(json, 'a.__proto__'), None);
+      assert.deepStrictEqual(Option.path(json, 'a.constructor'), None);
+      assert.deepStrictEqual(Option.path({}, ['toString']), None);
+      assert.deepStrictEqual(
+        Option.path(Object.create(null), ['toString']),
+        None,
+      );
+      assert.deepStrictEqual(
+        Option.path(JSON.parse('{"__proto__":1}'), ['__proto__']),
+        Some(1),
+      );
+    });
+
+    it('Accepts a string path.', () => {
+      const cfg: Config = {
+        db: { replicas: [{ host: 'a', port: 5432 }] },
+        name: 'app',
+      };
+      const x = Option.path(cfg, 'db.replicas[0].port');
+      expectType<Equal<typeof x, Option<number | undefined>>>();
+      assert.deepEqual(x, Some(5432));
+      assert.deepEqual(Option.path(cfg, 'db.replicas.0.host'), Some('a'));
+      assert.deepEqual(Option.path(cfg, 'db.replicas[1].host'), None);
+      assert.deepEqual(Option.path({ a: { '': 1 } }, 'a.'), Some(1));
+    });
+  });
+
+  describe('get', () => {
+    it('Returns Some of the property, or None if it is absent.', () => {
+      const env: Record<string, string | undefined> = {
+        PORT: '8080',
+        DEBUG: undefined,
+      };
+      const x = Option.get(env, 'PORT');
+      expectType<Equal<typeof x, Option<string | undefined>>>();
+      assert.deepEqual(x, Some('8080'));
+      assert.deepEqual(Option.get(env, 'DEBUG'), Some(undefined));
+      assert.deepEqual(Option.get(env, 'HOST'), None);
+      assert.deepEqual(Option.get(env, 'constructor'), None);
+      assert.deepEqual(Option.get(env, 'toString'), None);
+    });
+
+    it('Looks up inherited properties and getters.', () => {
+      const url = new URL('https://example.com/a');
+      const x = Option.get(url, 'pathname');
+      expectType<Equal<typeof x, Option<string>>>();
+      assert.deepEqual(x, Some('/a'));
+      assert.deepEqual(
+        Option.get(Object.create({ a: 1 }) as { a: number }, 'a'),
+        Some(1),
+      );
+    });
+
+    it('Returns Some of the entry of a Map, or None if it is absent.', () => {
+      const map = new Map<string, number | null>([['a', null]]);
+      const x = Option.get(map, 'a');
+      expectType<Equal<typeof x, Option<number | null>>>();
+      assert.deepEqual(x, Some(null));
+      assert.deepEqual(Option.get(map, 'b'), None);
+    });
+  });
+
+  describe('at', () => {
+    it('Returns Some of the item at the index, or None if it is out of bounds.', () => {
+      const xs = [1, undefined, 3];
+      assert.deepEqual(Option.at(xs, 0), Some(1));
+      assert.deepEqual(Option.at(xs, 1), Some(undefined));
+      assert.deepEqual(Option.at(xs, -1), Some(3));
+      assert.deepEqual(Option.at(xs, -3), Some(1));
+      assert.deepEqual(Option.at(xs, 3), None);
+      assert.deepEqual(Option.at(xs, -4), None);
+      assert.deepEqual(Option.at(xs, 0.5), None);
+      assert.deepEqual(Option.at(xs, -1.5), None);
+      assert.deepEqual(Option.at('abc', 1), Some('b'));
+    });
+  });
+
+  describe('find', () => {
+    it('Returns Some of the first matching item, or None if there is none.', () => {
+      const xs = [1, 2, 3, 4];
+      assert.deepEqual(
+        Option.find(xs, (x) => x % 2 === 0),
+        Some(2),
+      );
+      assert.deepEqual(
+        Option.find(new Set(xs), (x) => x > 4),
+        None,
+      );
+    });
+
+    it('Narrows the type with a type guard.', () => {
+      const xs: (string | number)[] = [1, 'a', 2];
+      const x = Option.find(xs, (v): v is string => typeof v === 'string');
+      expectType<Equal<typeof x, Option<string>>>();
+      assert.deepEqual(x, Some('a'));
+    });
+  });
+
+  describe('PathValue', () => {
+    it('Resolves the type at a tuple or string path.', () => {
+      expectType<
+        Equal<PathValue<Config, ['db', 'replicas', 0, 'host']>, string | null>
+      >();
+      expectType<
+        Equal<PathValue<Config, 'db.replicas[0].host'>, string | null>
+      >();
+      expectType<Equal<PathValue<Config, 'name'>, string>>();
+      expectType<Equal<PathValue<Config, 'missing'>, unknown>>();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Default, None, OptionCell, Some } from '@schrosis/rus-ts';
+import assert from 'assert';
+
+describe('OptionCell', () => {
+  describe('get', () => {
+    it('Returns the option held by the cell, which is None by default.', () => {
+      assert.deepEqual(new OptionCell<number>().get(), None);
+      assert.deepEqual(new OptionCell(Some(1)).get(), Some(1));
+    });
+  });
+
+  describe('set', () => {
+    it('Replaces the option held by the cell.', () => {
+      const cell = new OptionCell(Some(1));
+      cell.set(None);
+      assert.deepEqual(cell.get(), None);
+    });
+  });
+
+  describe('insert', () => {
+    it('Inserts the value into the cell and returns it.', () => {
+      const cell = new OptionCell<number>();
+      assert.equal(cell.insert(1), 1);
+      assert.equal(cell.insert(2), 2);
+      assert.deepEqual(cell.get(), Some(2));
+    });
+  });
+
+  describe('getOrInsert', () => {
+    it('Inserts the value if the cell is None, then returns the contained value.', () => {
+      const cell = new OptionCell<number>();
+      assert.equal(cell.getOrInsert(5), 5);
+      assert.equal(cell.getOrInsert(7), 5);
+      assert.deepEqual(cell.get(), Some(5));
+    });
+  });
+
+  describe('getOrInsertWith', () => {
+    it('Inserts the computed value if the cell is None, then returns the contained value.', () => {
+      const cell = new OptionCell<number>();
+      let calls = 0;
+      const f = () => {
+        calls++;
+        return 5;
+      };
+      assert.equal(cell.getOrInsertWith(f), 5);
+      assert.equal(cell.getOrInsertWith(f), 5);
+      assert.equal(calls, 1);
+    });
+  });
+
+  describe('getOrInsertDefault', () => {
+    it('Inserts the default if the cell is None, then returns the contained value.', () => {
+      const cell = new OptionCell<string[]>();
+      cell.getOrInsertDefault(Default.array()).push('a');
+      cell.getOrInsertDefault(Default.array()).push('b');
+      assert.deepEqual(cell.get(), Some(['a', 'b']));
+    });
+  });
+
+  describe('take', () => {
+    it('Takes the option out of the cell, leaving a None in its place.', () => {
+      const cell = new OptionCell(Some(2));
+      assert.deepEqual(cell.take(), Some(2));
+      assert.deepEqual(cell.get(), None);
+      assert.deepEqual(cell.take(), None);
+    });
+  });
+
+  describe('takeIf', () => {
+    it('Takes the option out of the cell only if the predicate returns true.', () => {
+      const cell = new OptionCell(Some(42));
+      assert.deepEqual(
+        cell.takeIf((v) => v % 2 === 1),
+        None,
+      );
+      assert.deepEqual(cell.get(), Some(42));
+      assert.deepEqual(
+        cell.takeIf((v) => v % 2 === 0),
+        Some(42),
+      );
+      assert.deepEqual(cell.get(), None);
+      assert.deepEqual(
+        cell.takeIf(() => true),
+        None,
+      );
+    });
+  });
+
+  describe('replace', () => {
+    it('Puts Some of the value into the cell, and returns the old option.', () => {
+      const cell = new OptionCell(Some(2));
+      assert.deepEqual(cell.replace(5), Some(2));
+      assert.deepEqual(cell.get(), Some(5));
+      assert.deepEqual(new OptionCell<number>().replace(3), None);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import {
+  FromProps,
+  None,
+  NullablePaths,
+  Option,
+  Some,
+  ToProps,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+import { Equal, expectType } from './helpers';
+
+type Dto = {
+  id: number;
+  bio?: string | null;
+  createdAt: Date;
+  posts: { title: string | null; tags?: string[] }[];
+};
+
+type Model = {
+  id: number;
+  bio: Option<string>;
+  createdAt: Date;
+  posts: { title: Option<string>; tags: Option<string[]> }[];
+};
+
+class User {
+  constructor(readonly name: string | null) {}
+
+  greet(): string {
+    return `hello, ${this.name}`;
+  }
+}
+
+describe('Option props', () => {
+  describe('fromProps', () => {
+    it('Converts the properties at the paths into Options.', () => {
+      const dto: Dto = {
+        id: 1,
+        bio: null,
+        createdAt: new Date(0),
+        posts: [{ title: 'hello', tags: ['a'] }, { title: null }],
+      };
+      const model: Model = Option.fromProps(dto, [
+        'bio',
+        'posts.title',
+        'posts.tags',
+      ]);
+      assert.deepEqual(model, {
+        id: 1,
+        bio: None,
+        createdAt: new Date(0),
+        posts: [
+          { title: Some('hello'), tags: Some(['a']) },
+          { title: None, tags: None },
+        ],
+      });
+    });
+
+    it('Maps undefined and absent properties to None.', () => {
+      const x = Option.fromProps({ a: undefined as number | undefined }, ['a']);
+      assert.deepEqual(x, { a: None });
+      const y = Option.fromProps({} as { a?: number }, ['a']);
+      assert.deepEqual(y, { a: None });
+    });
+
+    it('Keeps the properties not at the paths.', () => {
+      const dto: Dto = { id: 1, bio: null, createdAt: new Date(0), posts: [] };
+      const x = Option.fromProps(dto, ['bio']);
+      assert.deepEqual(x, {
+        id: 1,
+        bio: None,
+        createdAt: new Date(0),
+        posts: [],
+      });
+      assert.equal(x.posts, dto.posts);
+      expectType<
+        Equal<
+          typeof x,
+          {
+            id: number;
+            bio: Option<string>;
+            createdAt: Date;
+            posts: Dto['posts'];
+          }
+        >
+      >();
+    });
+
+    it('Keeps values other than plain objects and arrays.', () => {
+      const user = new User(null);
+      const bytes = new Uint8Array([1]);
+      const x = Option.fromProps(
+        { user, bytes, url: new URL('https://example.com') as URL | null },
+        ['url'],
+      );
+      assert.equal(x.user, user);
+      assert.equal(x.bytes, bytes);
+      assert.deepEqual(x.url, Some(new URL('https://example.com')));
+      expectType<
+        Equal<typeof x, { user: User; bytes: Uint8Array; url: Option<URL> }>
+      >();
+    });
+
+    it('Has the converted type.', () => {
+      expectType<
+        Equal<NullablePaths<Dto>, 'bio' | 'posts.title' | 'posts.tags'>
+      >();
+      expectType<Equal<FromProps<Dto>, Model>>();
+      expectType<Equal<FromProps<(number | null)[]>, (number | null)[]>>();
+      expectType<Equal<NullablePaths<{ user: User; url?: URL }>, 'url'>>();
+    });
+  });
+
+  describe('toProps', () => {
+    const model = {
+      id: 1,
+      bio: None as Option<string>,
+      nested: Some({ name: Some('a'), note: None as Option<string> }),
+      tags: [Some('a'), None],
+    };
+
+    it('Converts None to undefined by default.', () => {
+      assert.deepEqual(Option.toProps(model), {
+        id: 1,
+        bio: undefined,
+        nested: { name: 'a', note: undefined },
+        tags: ['a', undefined],
+      });
+    });
+
+    it('Converts None to null.', () => {
+      const x = Option.toProps(model, { none: 'null' });
+      assert.deepEqual(x, {
+        id: 1,
+        bio: null,
+        nested: { name: 'a', note: null },
+        tags: ['a', null],
+      });
+    });
+
+    it('Omits None properties.', () => {
+      const x = Option.toProps(model, { none: 'omit' });
+      assert.deepEqual(x, {
+        id: 1,
+        nested: { name: 'a' },
+        tags: ['a', undefined],
+      });
+      assert.equal('bio' in x, false);
+    });
+
+    it('Is the inverse of fromProps.', () => {
+      const dto = {
+        id: 1,
+        bio: null as string | null,
+        posts: [{ title: 'a' as string | null }],
+      };
+      assert.deepEqual(
+        Option.toProps(Option.fromProps(dto, ['bio', 'posts.title']), {
+          none: 'null',
+        }),
+        dto,
+      );
+    });
+
+    it('Has the converted type.', () => {
+      type T = { id: number; bio: Option<string>; tags: Option<string>[] };
+      expectType<
+        Equal<
+          ToProps<T, 'null'>,
+          { id: number; bio: string | null; tags: (string | null)[] }
+        >
+      >();
+      expectType<
+        Equal<
+          ToProps<T>,
+          { id: number; bio: string | undefined; tags: (string | undefined)[] }
+        >
+      >();
+      expectType<
+        Equal<
+          ToProps<T, 'omit'>,
+          { id: number; tags: (string | undefined)[]; bio?: string }
+        >
+      >();
+      expectType<
+        Equal<
+          ToProps<Model, 'null'>,
+          {
+            id: number;
+            bio: string | null;
+            createdAt: Date;
+            posts: { title: string | null; tags: string[] | null }[];
+          }
+        >
+      >();
+    });
+  });
+});
@@ -1,7 +1,21 @@
-import { Err, None, Ok, Option, Result, Some } from '@schrosis/rus-ts';
+import { Default, Err, None, Ok, Option, Result, Some } from '@schrosis/rus-ts';
 import assert from 'assert';
+import { Equal, expectType } from './helpers';
 
 describe('Option', () => {
+  it('Shares its methods through the prototype instead of wrapping each value.', () => {
+    assert.equal(
+      Object.getPrototypeOf(Some(1)),
+      Object.getPrototypeOf(Some('a')),
+    );
+    assert.deepEqual(Object.keys(Some(1)), ['value']);
+    assert.equal(Some(1).map, Some(2).map);
+    assert.deepEqual(
+      Some(null).map((x) => x === null),
+      Some(true),
+    );
+  });
+
   describe('isSome', () => {
     it('returns true if the option is a Some value.', () => {
       const x: Option<number> = Some(2);
@@ -22,6 +36,20 @@ describe('Option', () => {
     });
   });
 
+  describe('expect', () => {
+    it('Returns the contained value, or throws an UnwrapError with the message if None.', () => {
+      assert.equal(Some('value').expect('fruits are healthy'), 'value');
+      assert.throws(
+        () => (None as Option<string>).expect('fruits are healthy'),
+        {
+          name: 'UnwrapError',
+          message: 'fruits are healthy',
+          variant: 'None',
+        },
+      );
+    });
+  });
+
   describe('unwrapOr', () => {
     it('Returns the contained Some value or a provided default.', () => {
       assert.equal(Some('car').unwrapOr('bike'), 'car');
@@ -307,4 +335,465 @@ describe('Option', () => {
       assert.deepEqual(Option.fromNullable(z), Some('bar'));
     });
   });
+
+  describe('gen', () => {
+    it('Unwraps Some values with yield* and short-circuits on the first None.', () => {
+      const arr2d = [
+        ['A0', 'A1'],
+        ['B0', 'B1'],
+      ];
+
+      const concat = (i: number, j: number): Option<string> =>
+        Option.gen(function* () {
+          const row = yield* Option.fromUndefinable(arr2d.at(i)).try();
+          const item = yield* Option.fromUndefinable(row.at(j)).try();
+          return Some(`${i}${j}: ${item}`);
+        });
+
+      assert.deepEqual(concat(0, 1), Some('01: A1'));
+      assert.deepEqual(concat(2, 0), None);
+      assert.deepEqual(concat(0, 2), None);
+    });
+
+    it('Returns the Option returned by the generator.', () => {
+      const x = Option.gen(function* () {
+        const a = yield* Some(1).try();
+        return a > 0 ? None : Some(a);
+      });
+      assert.deepEqual(x, None);
+    });
+  });
+
+  describe('all', () => {
+    it('Converts an array of Options into an Option of an array.', () => {
+      const x: Option<number[]> = Option.all([Some(1), Some(2)]);
+      assert.deepStrictEqual(x, Some([1, 2]));
+
+      const options: Option<number>[] = [Some(1), None];
+      assert.deepStrictEqual(Option.all(options), None);
+    });
+
+    it('Preserves per-position types of tuples.', () => {
+      const x: Option<[number, string]> = Option.all([Some(1), Some('a')]);
+      assert.deepStrictEqual(x, Some([1, 'a']));
+
+      const y: Option<[number, string]> = Option.all([
+        Some(1),
+        None as Option<string>,
+      ]);
+      assert.deepStrictEqual(y, None);
+    });
+
+    it('Converts a record of Options into an Option of a record.', () => {
+      const x: Option<{ a: number; b: string }> = Option.all({
+        a: Some(1),
+        b: Some('b'),
+      });
+      assert.deepStrictEqual(x, Some({ a: 1, b: 'b' }));
+
+      assert.deepStrictEqual(Option.all({ a: Some(1), b: None }), None);
+    });
+  });
+
+  describe('Symbol.iterator', () => {
+    it('Iterates over the possibly contained value.', () => {
+      const x: Option<number> = Some(4);
+      const xs: number[] = [...x];
+      assert.deepEqual(xs, [4]);
+
+      const y: Option<number> = None;
+      assert.deepEqual([...y], []);
+
+      const values: number[] = [];
+      for (const v of Some(1)) {
+        values.push(v);
+      }
+      for (const v of y) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1]);
+    });
+  });
+
+  describe('iter', () => {
+    it('Returns an iterator over the possibly contained value.', () => {
+      const x = Some(4);
+      assert.deepEqual([...x.iter()], [4]);
+
+      const y: Option<number> = None;
+      assert.deepEqual([...y.iter()], []);
+
+      const values: number[] = [];
+      for (const v of Some(1).iter()) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1]);
+    });
+  });
+
+  describe('flattenIter', () => {
+    it('Lazily iterates over the contained Some values of an Iterable.', () => {
+      const options = [Some(1), None, Some(3)];
+      assert.deepEqual([...Option.flattenIter(options)], [1, 3]);
+
+      let pulled = 0;
+      const infinite = function* () {
+        for (let i = 0; ; i++) {
+          pulled++;
+          yield i % 2 === 0 ? Some(i) : None;
+        }
+      };
+      const iter = Option.flattenIter(infinite());
+      assert.deepEqual(iter.next(), { value: 0, done: false });
+      assert.deepEqual(iter.next(), { value: 2, done: false });
+      assert.equal(pulled, 3);
+    });
+
+    it('Lazily iterates over the contained Some values of an AsyncIterable.', async () => {
+      const options = async function* () {
+        yield Some(1);
+        yield None;
+        yield Some(3);
+      };
+
+      const values: number[] = [];
+      for await (const v of Option.flattenIter(options())) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1, 3]);
+    });
+  });
+
+  describe('equals', () => {
+    it('Returns true if both options are None, or both are Some with equal values.', () => {
+      const x: Option<number> = Some(2);
+      assert.equal(x.equals(Some(2)), true);
+      assert.equal(x.equals(Some(3)), false);
+      assert.equal(x.equals(None), false);
+      assert.equal(None.equals(x), false);
+      assert.equal(None.equals(None), true);
+      assert.equal(Some(NaN).equals(Some(NaN)), true);
+    });
+
+    it('Compares nested options and results structurally.', () => {
+      assert.equal(Some(Some(1)).equals(Some(Some(1))), true);
+      const x: Option<Result<number, number>> = Some(Ok(1));
+      assert.equal(x.equals(Some(Err(1))), false);
+    });
+
+    it('Compares the contained values with eq.', () => {
+      const x = Some({ id: 1 });
+      assert.equal(x.equals(Some({ id: 1 })), false);
+      assert.equal(
+        x.equals(Some({ id: 1 }), (a, b) => a.id === b.id),
+        true,
+      );
+    });
+  });
+
+  describe('compare', () => {
+    it('Orders None before Some, and Some values by their contained values.', () => {
+      const x: Option<number> = Some(1);
+      assert.equal(x.compare(None), 1);
+      assert.equal(None.compare(x), -1);
+      assert.equal(None.compare(None), 0);
+      assert.equal(x.compare(Some(2)), -1);
+      assert.equal(x.compare(Some(1)), 0);
+      assert.equal(Some('b').compare(Some('a')), 1);
+    });
+
+    it('Sorts options.', () => {
+      const xs: Option<Option<number>>[] = [
+        Some(Some(2)),
+        None,
+        Some(None),
+        Some(Some(1)),
+      ];
+      assert.deepEqual(
+        xs.sort((a, b) => a.compare(b)),
+        [None, Some(None), Some(Some(1)), Some(Some(2))],
+      );
+    });
+
+    it('Compares the contained values with cmp.', () => {
+      const byLength = (a: string, b: string) => a.length - b.length;
+      assert.equal(Some('aa').compare(Some('b'), byLength) > 0, true);
+    });
+  });
+
+  describe('hash', () => {
+    it('Returns the same hash for equal options.', () => {
+      assert.equal(Some(1).hash(), Some(1).hash());
+      assert.equal(None.hash(), None.hash());
+      assert.equal(Some(Ok('a')).hash(), Some(Ok('a')).hash());
+      assert.equal(Some(NaN).hash(), Some(NaN).hash());
+      assert.equal(Some(1n).hash(), Some(1n).hash());
+    });
+
+    it('Hashes objects by their identity, like equals.', () => {
+      const obj = { id: 1 };
+      assert.equal(Some(obj).hash(), Some(obj).hash());
+      assert.notEqual(Some(obj).hash(), Some({ id: 1 }).hash());
+    });
+
+    it('Hashes cyclic objects and objects containing bigints.', () => {
+      const cyclic: { self?: unknown } = {};
+      cyclic.self = cyclic;
+      assert.equal(Some(cyclic).hash(), Some(cyclic).hash());
+
+      const big = { n: 1n };
+      assert.equal(Some(big).hash(), Some(big).hash());
+    });
+
+    it('Returns different hashes for different options.', () => {
+      assert.notEqual(Some(1).hash(), Some(2).hash());
+      assert.notEqual(Some(1).hash(), Some('1').hash());
+      assert.notEqual(Some(undefined).hash(), None.hash());
+    });
+
+    it('Hashes the contained value with hash.', () => {
+      const byId = (v: { id: number }) => v.id;
+      assert.equal(
+        Some({ id: 1, name: 'a' }).hash(byId),
+        Some({ id: 1, name: 'b' }).hash(byId),
+      );
+    });
+
+    it('Returns an unsigned 32-bit integer.', () => {
+      const h = Some('foo').hash();
+      assert.equal(Number.isInteger(h) && h >= 0 && h < 2 ** 32, true);
+    });
+  });
+
+  describe('inspect', () => {
+    it('Calls f with the contained value if Some, and returns the option unchanged.', () => {
+      const logged: number[] = [];
+      const x: Option<number> = Some(4);
+      const y: Option<number> = x.inspect((v) => logged.push(v));
+      assert.equal(y, x);
+      assert.deepEqual(logged, [4]);
+
+      const z = None as Option<number>;
+      assert.equal(
+        z.inspect((v) => logged.push(v)),
+        z,
+      );
+      assert.deepEqual(logged, [4]);
+    });
+
+    it('Keeps the type of the option.', () => {
+      const x = Some(4).inspect((v) => v);
+      expectType<Equal<typeof x, Some<number>>>();
+      const y = None.inspect((v) => v);
+      expectType<Equal<typeof y, None>>();
+      const z = (Some(4) as Option<number>).inspect((v) => v);
+      expectType<Equal<typeof z, Option<number>>>();
+    });
+  });
+
+  describe('isSomeAnd', () => {
+    it('Returns true if the option is a Some and the value inside of it matches a predicate.', () => {
+      assert.equal(
+        Some(2).isSomeAnd((v) => v > 1),
+        true,
+      );
+      assert.equal(
+        Some(0).isSomeAnd((v) => v > 1),
+        false,
+      );
+      assert.equal(
+        (None as Option<number>).isSomeAnd((v) => v > 1),
+        false,
+      );
+    });
+
+    it('Returns a boolean, not a type predicate.', () => {
+      const x: Option<number> = Some(0);
+      const y = x.isSomeAnd((v) => v > 1);
+      expectType<Equal<typeof y, boolean>>();
+    });
+  });
+
+  describe('isNoneOr', () => {
+    it('Returns true if the option is a None or the value inside of it matches a predicate.', () => {
+      assert.equal(
+        Some(2).isNoneOr((v) => v > 1),
+        true,
+      );
+      assert.equal(
+        Some(0).isNoneOr((v) => v > 1),
+        false,
+      );
+      assert.equal(
+        (None as Option<number>).isNoneOr((v) => v > 1),
+        true,
+      );
+    });
+  });
+
+  describe('contains', () => {
+    it('Returns true if the option is a Some value containing the given value.', () => {
+      assert.equal(Some(2).contains(2), true);
+      assert.equal(Some(3).contains(2), false);
+      assert.equal((None as Option<number>).contains(2), false);
+      assert.equal(Some(Ok(1)).contains(Ok(1)), true);
+      assert.equal(
+        Some({ id: 1 }).contains({ id: 1 }, (a, b) => a.id === b.id),
+        true,
+      );
+    });
+  });
+
+  describe('unwrapOrDefault', () => {
+    it('Returns the contained Some value or the default given by the provider.', () => {
+      assert.equal((None as Option<number>).unwrapOrDefault(Default.number), 0);
+      assert.equal(Some(2).unwrapOrDefault(Default.number), 2);
+      assert.equal(
+        (None as Option<string>).unwrapOrDefault(Default.string),
+        '',
+      );
+      assert.equal(
+        (None as Option<boolean>).unwrapOrDefault(Default.boolean),
+        false,
+      );
+      assert.equal(
+        (None as Option<bigint>).unwrapOrDefault(Default.bigint),
+        BigInt(0),
+      );
+      assert.deepEqual(
+        (None as Option<number[]>).unwrapOrDefault(Default.array()),
+        [],
+      );
+      assert.deepEqual(
+        (None as Option<Map<string, number>>).unwrapOrDefault(Default.map()),
+        new Map(),
+      );
+      assert.deepEqual(
+        (None as Option<Set<number>>).unwrapOrDefault(Default.set()),
+        new Set(),
+      );
+      assert.deepEqual(
+        (None as Option<Option<number>>).unwrapOrDefault(Default.option()),
+        None,
+      );
+    });
+
+    it('Accepts a class with a static default method as the provider.', () => {
+      class Config {
+        constructor(readonly retries: number) {}
+
+        static default(): Config {
+          return new Config(3);
+        }
+      }
+
+      assert.equal((None as Option<Config>).unwrapOrDefault(Config).retries, 3);
+    });
+
+    it('Returns a new default value every time.', () => {
+      const x = None as Option<number[]>;
+      assert.notEqual(
+        x.unwrapOrDefault(Default.array()),
+        x.unwrapOrDefault(Default.array()),
+      );
+    });
+  });
+
+  describe('orDefault', () => {
+    it('Returns the option if it contains a value, otherwise Some of the default.', () => {
+      assert.deepEqual(
+        (None as Option<number>).orDefault(Default.number),
+        Some(0),
+      );
+      assert.deepEqual(Some(2).orDefault(Default.number), Some(2));
+    });
+  });
+
+  describe('zipWith', () => {
+    it('Zips this and another Option with function f.', () => {
+      const point = (x: number, y: number) => ({ x, y });
+      const x = Some(17.5);
+      const y = Some(42.7);
+      assert.deepEqual(x.zipWith(y, point), Some({ x: 17.5, y: 42.7 }));
+      assert.deepEqual(x.zipWith(None as Option<number>, point), None);
+      assert.deepEqual((None as Option<number>).zipWith(y, point), None);
+    });
+  });
+
+  describe('unzip', () => {
+    it('Unzips an option containing a tuple of two values.', () => {
+      const x: Option<[number, string]> = Some([1, 'hi']);
+      const y = None as Option<[number, string]>;
+      const [a, b]: [Option<number>, Option<string>] = x.unzip();
+      assert.deepEqual([a, b], [Some(1), Some('hi')]);
+      assert.deepEqual(y.unzip(), [None, None]);
+    });
+  });
+
+  describe('toNullable', () => {
+    it('Returns the contained value or null.', () => {
+      const x: string | null = (Some('foo') as Option<string>).toNullable();
+      assert.equal(x, 'foo');
+      assert.equal((None as Option<string>).toNullable(), null);
+      assert.equal(Some(undefined).toNullable(), undefined);
+    });
+  });
+
+  describe('toUndefinable', () => {
+    it('Returns the contained value or undefined.', () => {
+      const x: string | undefined = (
+        Some('foo') as Option<string>
+      ).toUndefinable();
+      assert.equal(x, 'foo');
+      assert.equal((None as Option<string>).toUndefinable(), undefined);
+      assert.equal(Some(null).toUndefinable(), null);
+    });
+  });
+
+  describe('fromPredicate', () => {
+    it('Returns Some if the predicate holds.', () => {
+      assert.deepEqual(
+        Option.fromPredicate(2, (n) => n > 0),
+        Some(2),
+      );
+      assert.deepEqual(
+        Option.fromPredicate(-2, (n) => n > 0),
+        None,
+      );
+    });
+
+    it('Narrows the type with a type guard.', () => {
+      const x: Option<string> = Option.fromPredicate(
+        'foo' as string | number,
+        (v): v is string => typeof v === 'string',
+      );
+      assert.deepEqual(x, Some('foo'));
+    });
+  });
+
+  describe('fromNaN', () => {
+    it('Returns None for NaN.', () => {
+      assert.deepEqual(Option.fromNaN(parseInt('42')), Some(42));
+      assert.deepEqual(Option.fromNaN(parseInt('foo')), None);
+      assert.deepEqual(Option.fromNaN(Infinity), Some(Infinity));
+    });
+  });
+
+  describe('fromFalsy', () => {
+    it('Returns None for falsy values.', () => {
+      [false, 0, -0, BigInt(0), '', null, undefined, NaN].forEach((v) =>
+        assert.deepEqual(Option.fromFalsy(v), None),
+      );
+      assert.deepEqual(Option.fromFalsy('0'), Some('0'));
+      assert.deepEqual(Option.fromFalsy([]), Some([]));
+    });
+
+    it('Removes the falsy types.', () => {
+      const x: Option<string> = Option.fromFalsy(
+        'foo' as string | null | undefined,
+      );
+      const y: Option<true> = Option.fromFalsy(true as boolean);
+      assert.deepEqual([x, y], [Some('foo'), Some(true)]);
+    });
+  });
 });
@@ -0,0 +1,225 @@
+import { Err, None, Ok, Option, Some } from '@schrosis/rus-ts';
+import {
+  array,
+  boolean,
+  fromStandardSchema,
+  fromStandardSchemaAsync,
+  Infer,
+  number,
+  object,
+  optional,
+  ParseError,
+  refine,
+  StandardSchemaV1,
+  string,
+  union,
+} from '@schrosis/rus-ts/parse';
+import assert from 'assert';
+
+const issues = (res: { isErr(): boolean; value: unknown }) =>
+  res.isErr() ? (res.value as ParseError).issues : [];
+
+describe('parse', () => {
+  describe('ParseError', () => {
+    it('Lists the issues with their paths in the message.', () => {
+      const e = new ParseError([
+        { path: ['tags', 0], message: 'expected string, received number' },
+        { path: [], message: 'too many tags' },
+      ]);
+      assert.equal(e._tag, 'ParseError');
+      assert.equal(
+        e.message,
+        'tags[0]: expected string, received number\ntoo many tags',
+      );
+    });
+  });
+
+  describe('primitives', () => {
+    it('Parses the values of the type.', () => {
+      assert.deepEqual(string('a'), Ok('a'));
+      assert.deepEqual(number(1), Ok(1));
+      assert.deepEqual(boolean(false), Ok(false));
+    });
+
+    it('Fails with the received type.', () => {
+      assert.deepEqual(issues(string(1)), [
+        { path: [], message: 'expected string, received number' },
+      ]);
+      assert.deepEqual(issues(number(null)), [
+        { path: [], message: 'expected number, received null' },
+      ]);
+      assert.equal(number(NaN).isErr(), true);
+      assert.equal(boolean('true').isErr(), true);
+    });
+  });
+
+  describe('object', () => {
+    const user = object({
+      name: string,
+      tags: array(string),
+      nickname: optional(string),
+    });
+
+    it('Parses the properties and drops unknown ones.', () => {
+      const x: Option<{
+        name: string;
+        tags: string[];
+        nickname: Option<string>;
+      }> = user({ name: 'alice', tags: ['a'], admin: true }).ok();
+      assert.deepEqual(x, Some({ name: 'alice', tags: ['a'], nickname: None }));
+    });
+
+    it('Reports every issue with its path.', () => {
+      assert.deepEqual(issues(user({ tags: ['a', 1, true], nickname: 2 })), [
+        { path: ['name'], message: 'expected string, received undefined' },
+        { path: ['tags', 1], message: 'expected string, received number' },
+        { path: ['tags', 2], message: 'expected string, received boolean' },
+        { path: ['nickname'], message: 'expected string, received number' },
+      ]);
+      assert.deepEqual(issues(user([])), [
+        { path: [], message: 'expected object, received array' },
+      ]);
+    });
+
+    it('Nests paths of nested objects.', () => {
+      const post = object({ author: user });
+      const x = post({ author: { name: 'a', tags: {} } });
+      assert.equal(
+        x.isErrAnd(
+          (e) => e.message === 'author.tags: expected array, received object',
+        ),
+        true,
+      );
+    });
+  });
+
+  describe('union', () => {
+    it('Returns the first successful parse.', () => {
+      const id = union(string, number);
+      const x: Option<string | number> = id(1).ok();
+      assert.deepEqual(x, Some(1));
+      assert.deepEqual(id('a'), Ok('a'));
+    });
+
+    it('Reports the issues of every parser.', () => {
+      assert.equal(
+        union(string, number)(true).isErrAnd((e) => e.issues.length === 2),
+        true,
+      );
+    });
+  });
+
+  describe('optional', () => {
+    it('Parses undefined and null as None.', () => {
+      assert.deepEqual(optional(number)(undefined), Ok(None));
+      assert.deepEqual(optional(number)(null), Ok(None));
+      assert.deepEqual(optional(number)(1), Ok(Some(1)));
+      assert.equal(optional(number)('1').isErr(), true);
+    });
+  });
+
+  describe('refine', () => {
+    it('Fails with the message unless the predicate holds.', () => {
+      const age = refine(number, (n) => n >= 0, 'expected non-negative');
+      assert.deepEqual(age(1), Ok(1));
+      assert.deepEqual(issues(age(-1)), [
+        { path: [], message: 'expected non-negative' },
+      ]);
+      assert.equal(age('1').isErr(), true);
+    });
+
+    it('Narrows the type with a type guard.', () => {
+      const role = refine(
+        string,
+        (s): s is 'admin' | 'user' => s === 'admin' || s === 'user',
+        'unknown role',
+      );
+      const x: Option<'admin' | 'user'> = role('admin').ok();
+      assert.deepEqual(x, Some('admin'));
+    });
+  });
+
+  describe('Infer', () => {
+    it('Infers the type of a parser.', () => {
+      const point = object({ x: number, y: number });
+      const p: Infer<typeof point> = { x: 1, y: 2 };
+      assert.deepEqual(point(p), Ok(p));
+    });
+  });
+
+  describe('fromStandardSchema', () => {
+    const positive: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) =>
+          typeof value === 'number' && value > 0
+            ? { value }
+            : {
+                issues: [
+                  { message: 'expected positive', path: [{ key: 'n' }, 0] },
+                ],
+              },
+      },
+    };
+    const async: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        ...positive['~standard'],
+        validate: async (value) => positive['~standard'].validate(value),
+      },
+    };
+
+    it('Converts the output of the schema into a Result.', () => {
+      const parse = fromStandardSchema(positive);
+      assert.deepEqual(parse(1), Ok(1));
+      assert.deepEqual(issues(parse(-1)), [
+        { path: ['n', 0], message: 'expected positive' },
+      ]);
+    });
+
+    it('Fails for a schema validating asynchronously.', () => {
+      assert.equal(fromStandardSchema(async)(1).isErr(), true);
+
+      const thenable: StandardSchemaV1<unknown, number> = {
+        '~standard': {
+          ...positive['~standard'],
+          validate: (value) =>
+            ({
+              then: (resolve: (v: unknown) => void) =>
+                resolve(positive['~standard'].validate(value)),
+            } as unknown as Promise<StandardSchemaV1.Result<number>>),
+        },
+      };
+      assert.equal(fromStandardSchema(thenable)(1).isErr(), true);
+    });
+
+    it('Converts asynchronous schemas into an AsyncResult.', async () => {
+      const parse = fromStandardSchemaAsync(async);
+      assert.deepEqual(await parse(1), Ok(1));
+      assert.equal((await parse(-1)).isErr(), true);
+      assert.deepEqual(await fromStandardSchemaAsync(positive)(2), Ok(2));
+    });
+
+    it('Rejects the AsyncResult if the schema throws synchronously.', async () => {
+      const throwing: StandardSchemaV1<unknown, number> = {
+        '~standard': {
+          ...positive['~standard'],
+          validate: () => {
+            throw new Error('boom');
+          },
+        },
+      };
+      const parse = fromStandardSchemaAsync(throwing);
+      await assert.rejects(async () => await parse(1), { message: 'boom' });
+    });
+
+    it('Can be combined with the other parsers.', () => {
+      const parse = object({ n: fromStandardSchema(positive) });
+      assert.deepEqual(parse({ n: 1 }), Ok({ n: 1 }));
+      assert.deepEqual(
+        parse({ n: 0 }).mapErr((e) => e.issues[0].path),
+        Err(['n', 'n', 0]),
+      );
+    });
+  });
+});
@@ -1,7 +1,27 @@
-import { Err, None, Ok, Option, Result, Some } from '@schrosis/rus-ts';
+import {
+  Default,
+  Err,
+  None,
+  Ok,
+  Option,
+  Result,
+  Semigroup,
+  Some,
+} from '@schrosis/rus-ts';
 import assert from 'assert';
+import { Equal, expectType } from './helpers';
 
 describe('Result', () => {
+  it('Shares its methods through the prototype instead of wrapping each value.', () => {
+    assert.equal(Object.getPrototypeOf(Ok(1)), Object.getPrototypeOf(Ok('a')));
+    assert.deepEqual(Object.keys(Err(1)), ['value']);
+    assert.equal(Ok(1).map, Err(2).map);
+    assert.deepEqual(
+      Ok(undefined).map((x) => x === undefined),
+      Ok(true),
+    );
+  });
+
   describe('isOk', () => {
     it('Returns true if the result is Ok.', () => {
       const x: Result<number, string> = Ok(-3);
@@ -213,4 +233,716 @@ describe('Result', () => {
     );
     assert.deepEqual(e.transpose(), f);
   });
+
+  describe('tryCatch', () => {
+    it('Calls f and returns its return value as Ok, or the thrown error as Err.', () => {
+      const x = Result.tryCatch(() => JSON.parse('{"a":1}'));
+      assert.deepEqual(x, Ok({ a: 1 }));
+
+      const y = Result.tryCatch(
+        () => JSON.parse('{'),
+        (e) => (e instanceof SyntaxError ? 'invalid json' : 'unknown'),
+      );
+      assert.deepEqual(y, Err('invalid json'));
+
+      const error = new Error('boom');
+      const z = Result.tryCatch(() => {
+        throw error;
+      });
+      assert.equal(z.isErr() && z.value, error);
+    });
+  });
+
+  describe('fromThrowable', () => {
+    it('Wraps a function that may throw into a function that returns a Result.', () => {
+      const parse = Result.fromThrowable(JSON.parse, () => 'invalid json');
+
+      assert.deepEqual(parse('[1]'), Ok([1]));
+      assert.deepEqual(parse('['), Err('invalid json'));
+    });
+
+    it('Passes all arguments through.', () => {
+      const divide = Result.fromThrowable(
+        (a: number, b: number): number => {
+          if (b === 0) {
+            throw new RangeError('division by zero');
+          }
+          return a / b;
+        },
+        (e) => (e as Error).message,
+      );
+
+      assert.deepEqual(divide(6, 3), Ok(2));
+      assert.deepEqual(divide(1, 0), Err('division by zero'));
+    });
+
+    it('Passes this through, so it can wrap a method.', () => {
+      class Counter {
+        count = 0;
+        increment(by: number): number {
+          if (by < 0) {
+            throw new RangeError('negative');
+          }
+          return (this.count += by);
+        }
+      }
+      const counter = new Counter();
+      const increment = Result.fromThrowable(Counter.prototype.increment);
+
+      assert.deepEqual(increment.call(counter, 2), Ok(2));
+      assert.deepEqual(
+        increment.call(counter, -1),
+        Err(new RangeError('negative')),
+      );
+      assert.equal(counter.count, 2);
+    });
+  });
+
+  describe('gen', () => {
+    const parse = (s: string): Result<number, string> => {
+      const n = parseInt(s);
+      return isNaN(n) ? Err(`${s} is not a number`) : Ok(n);
+    };
+    const nonZero = (n: number): Result<number, RangeError> =>
+      n === 0 ? Err(new RangeError('zero')) : Ok(n);
+
+    it('Unwraps Ok values with yield* and short-circuits on the first Err.', () => {
+      const divide = (
+        a: string,
+        b: string,
+      ): Result<number, string | RangeError> =>
+        Result.gen(function* () {
+          const x = yield* parse(a).try();
+          const y = yield* nonZero(yield* parse(b).try()).try();
+          return Ok(x / y);
+        });
+
+      assert.deepEqual(divide('6', '3'), Ok(2));
+      assert.deepEqual(divide('6', 'foo'), Err('foo is not a number'));
+      assert.deepEqual(divide('6', '0'), Err(new RangeError('zero')));
+    });
+
+    it('Infers the union of all yielded error types.', () => {
+      const x = Result.gen(function* () {
+        const a = yield* parse('1').try();
+        const b = yield* nonZero(a).try();
+        return Ok(b);
+      });
+      const y: Result<number, string | RangeError> = x;
+      // @ts-expect-error RangeError is missing from the error type
+      const z: Result<number, string> = x;
+      assert.deepEqual(y, z);
+    });
+
+    it('Returns the Result returned by the generator.', () => {
+      const x = Result.gen(function* () {
+        const a = yield* parse('1').try();
+        return a > 0 ? Err('positive') : Ok(a);
+      });
+      assert.deepEqual(x, Err('positive'));
+    });
+
+    it('Runs finally blocks after short-circuiting.', () => {
+      let cleanedUp = false;
+      const x = Result.gen(function* () {
+        try {
+          return Ok(yield* parse('foo').try());
+        } finally {
+          cleanedUp = true;
+        }
+      });
+      assert.deepEqual(x, Err('foo is not a number'));
+      assert.equal(cleanedUp, true);
+    });
+  });
+
+  describe('all', () => {
+    it('Converts an array of Results into a Result of an array.', () => {
+      const x: Result<number[], string> = Result.all([Ok(1), Ok(2)]);
+      assert.deepStrictEqual(x, Ok([1, 2]));
+
+      const results: Result<number, string>[] = [Ok(1), Err('e1'), Err('e2')];
+      assert.deepStrictEqual(Result.all(results), Err('e1'));
+
+      assert.deepStrictEqual(Result.all([]), Ok([]));
+    });
+
+    it('Preserves per-position types of tuples.', () => {
+      const x: Result<[number, string], string | number> = Result.all([
+        Ok(1),
+        Ok('a'),
+      ]);
+      assert.deepStrictEqual(x, Ok([1, 'a']));
+
+      const a = Ok(1) as Result<number, string>;
+      const b = Err(2) as Result<string, number>;
+      const y: Result<[number, string], string | number> = Result.all([a, b]);
+      assert.deepStrictEqual(y, Err(2));
+    });
+
+    it('Converts a record of Results into a Result of a record.', () => {
+      const x: Result<{ a: number; b: string }, never> = Result.all({
+        a: Ok(1),
+        b: Ok('b'),
+      });
+      assert.deepStrictEqual(x, Ok({ a: 1, b: 'b' }));
+
+      const y = Result.all({ a: Ok(1), b: Err('e1') });
+      assert.deepStrictEqual(y, Err('e1'));
+    });
+  });
+
+  describe('any', () => {
+    it('Returns the first Ok, or an Err of all the errors.', () => {
+      const x: Result<number, string[]> = Result.any([Err('e1'), Ok(2), Ok(3)]);
+      assert.deepStrictEqual(x, Ok(2));
+
+      const y: Result<number, [string, number]> = Result.any([
+        Err('e1'),
+        Err(2),
+      ]);
+      assert.deepStrictEqual(y, Err(['e1', 2]));
+
+      assert.deepStrictEqual(Result.any([]), Err([]));
+    });
+  });
+
+  describe('partition', () => {
+    it('Splits Results into the Ok values and the Err values.', () => {
+      const results: Result<number, string>[] = [
+        Ok(1),
+        Err('e1'),
+        Ok(3),
+        Err('e2'),
+      ];
+      const [oks, errs]: [number[], string[]] = Result.partition(results);
+
+      assert.deepStrictEqual(oks, [1, 3]);
+      assert.deepStrictEqual(errs, ['e1', 'e2']);
+    });
+
+    it('Accepts any iterable.', () => {
+      const results = new Set<Result<number, string>>([Ok(1), Err('e1')]);
+      assert.deepStrictEqual(Result.partition(results), [[1], ['e1']]);
+    });
+  });
+
+  describe('allSettled', () => {
+    it('Collects every error instead of stopping at the first one.', () => {
+      const x: Result<number[], string[]> = Result.allSettled([Ok(1), Ok(2)]);
+      assert.deepStrictEqual(x, Ok([1, 2]));
+
+      const a = Err(1) as Result<number, number>;
+      const b = Ok('a') as Result<string, string>;
+      const c = Err('e3') as Result<boolean, string>;
+      const y: Result<[number, string, boolean], (number | string)[]> =
+        Result.allSettled([a, b, c]);
+      assert.deepStrictEqual(y, Err([1, 'e3']));
+    });
+
+    it('Accepts a record of Results.', () => {
+      const x: Result<{ a: number; b: string }, string[]> = Result.allSettled({
+        a: Ok(1),
+        b: Ok('b'),
+      });
+      assert.deepStrictEqual(x, Ok({ a: 1, b: 'b' }));
+
+      const y = Result.allSettled({ a: Err('e1'), b: Ok('b'), c: Err('e2') });
+      assert.deepStrictEqual(y, Err(['e1', 'e2']));
+    });
+  });
+
+  describe('Symbol.iterator', () => {
+    it('Iterates over the possibly contained Ok value.', () => {
+      const x: Result<number, string> = Ok(7);
+      const xs: number[] = [...x];
+      assert.deepEqual(xs, [7]);
+
+      const y: Result<number, string> = Err('nothing!');
+      assert.deepEqual([...y], []);
+
+      const values: number[] = [];
+      for (const v of Ok(1)) {
+        values.push(v);
+      }
+      for (const v of y) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1]);
+    });
+  });
+
+  describe('iter', () => {
+    it('Returns an iterator over the possibly contained Ok value.', () => {
+      const x: Result<number, string> = Ok(7);
+      assert.deepEqual([...x.iter()], [7]);
+
+      const y: Result<number, string> = Err('nothing!');
+      assert.deepEqual([...y.iter()], []);
+    });
+  });
+
+  describe('oks', () => {
+    it('Lazily iterates over the contained Ok values of an Iterable.', () => {
+      const results: Result<number, string>[] = [Ok(1), Err('e1'), Ok(3)];
+      assert.deepEqual([...Result.oks(results)], [1, 3]);
+    });
+
+    it('Lazily iterates over the contained Ok values of an AsyncIterable.', async () => {
+      const results = async function* (): AsyncGenerator<
+        Result<number, string>
+      > {
+        yield Ok(1);
+        yield Err('e1');
+        yield Ok(3);
+      };
+
+      const values: number[] = [];
+      for await (const v of Result.oks(results())) {
+        values.push(v);
+      }
+      assert.deepEqual(values, [1, 3]);
+    });
+  });
+
+  describe('errs', () => {
+    it('Lazily iterates over the contained Err values of an Iterable.', () => {
+      const results: Result<number, string>[] = [Ok(1), Err('e1'), Ok(3)];
+      assert.deepEqual([...Result.errs(results)], ['e1']);
+    });
+
+    it('Lazily iterates over the contained Err values of an AsyncIterable.', async () => {
+      const results = async function* (): AsyncGenerator<
+        Result<number, string>
+      > {
+        yield Ok(1);
+        yield Err('e1');
+        yield Err('e2');
+      };
+
+      const values: string[] = [];
+      for await (const e of Result.errs(results())) {
+        values.push(e);
+      }
+      assert.deepEqual(values, ['e1', 'e2']);
+    });
+  });
+
+  describe('equals', () => {
+    it('Returns true if both results are the same variant with equal values.', () => {
+      const x: Result<number, string> = Ok(2);
+      assert.equal(x.equals(Ok(2)), true);
+      assert.equal(x.equals(Ok(3)), false);
+      assert.equal(x.equals(Err('2')), false);
+      assert.equal(Err('e').equals(Err('e')), true);
+      assert.equal(Err(2).equals(Ok(2)), false);
+      assert.equal(Ok(Some(1)).equals(Ok(Some(1))), true);
+    });
+
+    it('Compares the contained values with eq and eqErr.', () => {
+      const byMessage = (a: Error, b: Error) => a.message === b.message;
+      const x: Result<Error, Error> = Err(new Error('boom'));
+      assert.equal(x.equals(Err(new Error('boom'))), false);
+      assert.equal(x.equals(Err(new Error('boom')), byMessage), false);
+      assert.equal(
+        x.equals(Err(new Error('boom')), undefined, byMessage),
+        true,
+      );
+    });
+  });
+
+  describe('compare', () => {
+    it('Orders Ok before Err, and the same variants by their contained values.', () => {
+      const x: Result<number, number> = Ok(3);
+      assert.equal(x.compare(Err(1)), -1);
+      assert.equal(Err(1).compare(x), 1);
+      assert.equal(x.compare(Ok(1)), 1);
+      assert.equal(x.compare(Ok(3)), 0);
+      assert.equal(Err(1).compare(Err(2)), -1);
+    });
+
+    it('Sorts results.', () => {
+      const xs: Result<number, string>[] = [Err('b'), Ok(2), Err('a'), Ok(1)];
+      assert.deepEqual(
+        xs.sort((a, b) => a.compare(b)),
+        [Ok(1), Ok(2), Err('a'), Err('b')],
+      );
+    });
+
+    it('Compares the contained values with cmp and cmpErr.', () => {
+      const desc = (a: number, b: number) => b - a;
+      const x: Result<number, number> = Ok(1);
+      assert.equal(x.compare(Ok(2), desc) > 0, true);
+      assert.equal(Err(1).compare(Err(2), undefined, desc) > 0, true);
+    });
+  });
+
+  describe('hash', () => {
+    it('Returns the same hash for equal results.', () => {
+      assert.equal(Ok(1).hash(), Ok(1).hash());
+      assert.equal(Err('e').hash(), Err('e').hash());
+      const xs = [1, 2];
+      assert.equal(Ok(Some(xs)).hash(), Ok(Some(xs)).hash());
+      assert.equal(Err(1n).hash(), Err(1n).hash());
+    });
+
+    it('Hashes cyclic objects and objects containing bigints.', () => {
+      const cyclic: { self?: unknown } = {};
+      cyclic.self = cyclic;
+      assert.equal(Ok(cyclic).hash(), Ok(cyclic).hash());
+
+      const big = { n: 1n };
+      assert.equal(Err(big).hash(), Err(big).hash());
+    });
+
+    it('Returns different hashes for different results.', () => {
+      assert.notEqual(Ok(1).hash(), Err(1).hash());
+      assert.notEqual(Ok(1).hash(), Ok(2).hash());
+    });
+
+    it('Hashes the contained values with hash and hashErr.', () => {
+      const byMessage = (e: Error) => Some(e.message).hash();
+      const x: Result<number, Error> = Err(new Error('boom'));
+      assert.equal(
+        x.hash(undefined, byMessage),
+        Err(new Error('boom')).hash(undefined, byMessage),
+      );
+    });
+  });
+
+  describe('inspect', () => {
+    it('Calls f with the contained value if Ok, and returns the result unchanged.', () => {
+      const logged: number[] = [];
+      const x: Result<number, string> = Ok(4);
+      const y: Result<number, string> = x.inspect((v) => logged.push(v));
+      assert.equal(y, x);
+
+      const z = Err('e') as Result<number, string>;
+      assert.equal(
+        z.inspect((v) => logged.push(v)),
+        z,
+      );
+      assert.deepEqual(logged, [4]);
+    });
+
+    it('Keeps the type of the result.', () => {
+      const x = Ok(4).inspect((v) => v);
+      expectType<Equal<typeof x, Ok<number>>>();
+      const y = Err('e').inspect((v) => v);
+      expectType<Equal<typeof y, Err<string>>>();
+      const z = (Ok(4) as Result<number, string>).inspect((v) => v);
+      expectType<Equal<typeof z, Result<number, string>>>();
+    });
+  });
+
+  describe('inspectErr', () => {
+    it('Calls f with the contained error if Err, and returns the result unchanged.', () => {
+      const logged: string[] = [];
+      const x: Result<number, string> = Err('not found');
+      const y: Result<number, string> = x.inspectErr((e) => logged.push(e));
+      assert.equal(y, x);
+
+      const z = Ok(1) as Result<number, string>;
+      assert.equal(
+        z.inspectErr((e) => logged.push(e)),
+        z,
+      );
+      assert.deepEqual(logged, ['not found']);
+    });
+
+    it('Keeps the type of the result.', () => {
+      const x = Ok(4).inspectErr((e) => e);
+      expectType<Equal<typeof x, Ok<number>>>();
+      const y = Err('e').inspectErr((e) => e);
+      expectType<Equal<typeof y, Err<string>>>();
+      const z = (Err('e') as Result<number, string>).inspectErr((e) => e);
+      expectType<Equal<typeof z, Result<number, string>>>();
+    });
+  });
+
+  describe('isOkAnd', () => {
+    it('Returns true if the result is Ok and the value inside of it matches a predicate.', () => {
+      assert.equal(
+        (Ok(2) as Result<number, string>).isOkAnd((v) => v > 1),
+        true,
+      );
+      assert.equal(
+        (Ok(0) as Result<number, string>).isOkAnd((v) => v > 1),
+        false,
+      );
+      assert.equal(
+        (Err('hey') as Result<number, string>).isOkAnd((v) => v > 1),
+        false,
+      );
+    });
+  });
+
+  describe('isErrAnd', () => {
+    it('Returns true if the result is Err and the value inside of it matches a predicate.', () => {
+      const isRange = (e: Error) => e instanceof RangeError;
+      assert.equal(
+        (Err(new RangeError()) as Result<number, Error>).isErrAnd(isRange),
+        true,
+      );
+      assert.equal(
+        (Err(new TypeError()) as Result<number, Error>).isErrAnd(isRange),
+        false,
+      );
+      assert.equal((Ok(123) as Result<number, Error>).isErrAnd(isRange), false);
+    });
+  });
+
+  describe('contains', () => {
+    it('Returns true if the result is an Ok value containing the given value.', () => {
+      assert.equal((Ok(2) as Result<number, string>).contains(2), true);
+      assert.equal((Ok(3) as Result<number, string>).contains(2), false);
+      assert.equal((Err('e') as Result<number, string>).contains(2), false);
+      assert.equal(
+        (Ok({ id: 1 }) as Result<{ id: number }, string>).contains(
+          { id: 1 },
+          (a, b) => a.id === b.id,
+        ),
+        true,
+      );
+    });
+  });
+
+  describe('containsErr', () => {
+    it('Returns true if the result is an Err value containing the given value.', () => {
+      assert.equal((Ok(2) as Result<number, string>).containsErr('e'), false);
+      assert.equal((Err('e') as Result<number, string>).containsErr('e'), true);
+      assert.equal(
+        (Err('f') as Result<number, string>).containsErr('e'),
+        false,
+      );
+    });
+  });
+
+  describe('unwrapOrDefault', () => {
+    it('Returns the contained Ok value or the default given by the provider.', () => {
+      const parse = (s: string): Result<number, string> =>
+        Number.isNaN(Number(s)) ? Err(`${s} is not a number`) : Ok(Number(s));
+      assert.equal(parse('1909').unwrapOrDefault(Default.number), 1909);
+      assert.equal(parse('1900blarg').unwrapOrDefault(Default.number), 0);
+    });
+  });
+
+  describe('intoOk', () => {
+    it('Returns the contained Ok value of a result that can never be an Err.', () => {
+      const onlyGood = (): Result<string, never> => Ok('this is fine');
+      assert.equal(onlyGood().intoOk(), 'this is fine');
+
+      const x = Ok('x') as Result<string, number>;
+      // @ts-expect-error The error type is not never.
+      x.intoOk();
+    });
+  });
+
+  describe('intoErr', () => {
+    it('Returns the contained Err value of a result that can never be an Ok.', () => {
+      const onlyBad = (): Result<never, string> => Err('Oops, it failed');
+      assert.equal(onlyBad().intoErr(), 'Oops, it failed');
+    });
+  });
+
+  describe('flatten', () => {
+    it('Converts from Result<Result<T, F>, E> to Result<T, E | F>.', () => {
+      const x: Result<Result<string, number>, number> = Ok(Ok('hello'));
+      assert.deepEqual(x.flatten(), Ok('hello'));
+
+      const y = Ok(Err(6)) as Result<Result<string, number>, number>;
+      assert.deepEqual(y.flatten(), Err(6));
+
+      const z = Err('e') as Result<Result<string, number>, string>;
+      const flat: Result<string, string | number> = z.flatten();
+      assert.deepEqual(flat, Err('e'));
+    });
+  });
+
+  describe('andThen', () => {
+    it('Widens the error type to the union of both error types.', () => {
+      const parse = (s: string): Result<number, SyntaxError> =>
+        Number.isNaN(Number(s)) ? Err(new SyntaxError(s)) : Ok(Number(s));
+      const positive = (n: number): Result<number, RangeError> =>
+        n > 0 ? Ok(n) : Err(new RangeError(`${n}`));
+
+      const x: Result<number, SyntaxError | RangeError> =
+        parse('-1').andThen(positive);
+      assert.equal(
+        x.isErrAnd((e) => e instanceof RangeError),
+        true,
+      );
+      assert.deepEqual(parse('2').andThen(positive), Ok(2));
+
+      const y: Result<number, SyntaxError> = parse('2').andThen((n) =>
+        Ok(n * 2),
+      );
+      assert.deepEqual(y, Ok(4));
+    });
+  });
+
+  describe('convertErr', () => {
+    class ConfigError extends Error {
+      static from(e: SyntaxError | RangeError): ConfigError {
+        return new ConfigError(`invalid config: ${e.message}`, { cause: e });
+      }
+    }
+
+    it('Converts the contained Err value with the from method of the target.', () => {
+      const x = Err(new RangeError('0 is not a port')) as Result<
+        number,
+        RangeError
+      >;
+      const y: Result<number, ConfigError> = x.convertErr(ConfigError);
+      assert.equal(
+        y.isErrAnd(
+          (e) =>
+            e instanceof ConfigError &&
+            e.message === 'invalid config: 0 is not a port' &&
+            e.cause instanceof RangeError,
+        ),
+        true,
+      );
+
+      const z = Ok(8080) as Result<number, RangeError>;
+      assert.deepEqual(z.convertErr(ConfigError), Ok(8080));
+    });
+
+    it('Unifies the error types of a generator block like ? with From in Rust.', () => {
+      const parse = (s: string): Result<unknown, SyntaxError> =>
+        Result.tryCatch(
+          () => JSON.parse(s),
+          (e) => e as SyntaxError,
+        );
+      const port = (n: number): Result<number, RangeError> =>
+        n > 0 && n < 65536 ? Ok(n) : Err(new RangeError(`${n} is not a port`));
+
+      const load = (s: string): Result<number, ConfigError> =>
+        Result.gen(function* () {
+          const json = yield* parse(s).convertErr(ConfigError).try();
+          return port(Number(json)).convertErr(ConfigError);
+        });
+
+      assert.deepEqual(load('8080'), Ok(8080));
+      assert.equal(
+        load('0').isErrAnd((e) => e.cause instanceof RangeError),
+        true,
+      );
+      assert.equal(
+        load('{').isErrAnd((e) => e.cause instanceof SyntaxError),
+        true,
+      );
+    });
+
+    it('Accepts any object with a from method.', () => {
+      const code = { from: (e: string) => e.length };
+      const x = Err('boom') as Result<number, string>;
+      const y: Result<number, number> = x.convertErr(code);
+      assert.deepEqual(y, Err(4));
+    });
+  });
+
+  describe('into', () => {
+    it('Returns a function that converts an error with the from method of the target.', () => {
+      class AppError extends Error {
+        static from(e: Error): AppError {
+          return new AppError(e.message, { cause: e });
+        }
+      }
+
+      const x = Err(new RangeError('too big')) as Result<number, RangeError>;
+      const y: Result<number, AppError> = x.mapErr(Result.into(AppError));
+      assert.equal(
+        y.isErrAnd((e) => e instanceof AppError && e.message === 'too big'),
+        true,
+      );
+
+      const errors = [new TypeError('a'), new RangeError('b')].map(
+        Result.into(AppError),
+      );
+      assert.equal(
+        errors.every((e) => e instanceof AppError),
+        true,
+      );
+    });
+  });
+
+  describe('validate', () => {
+    const name = (s: string): Result<string, string[]> =>
+      s === '' ? Err(['name is empty']) : Ok(s);
+    const age = (n: number): Result<number, string[]> =>
+      n < 0 ? Err(['age is negative']) : Ok(n);
+
+    it('Combines Ok values keeping the shape of a record.', () => {
+      const x: Result<{ name: string; age: number }, string[]> =
+        Result.validate({ name: name('alice'), age: age(20) }, Semigroup.array);
+      assert.deepEqual(x, Ok({ name: 'alice', age: 20 }));
+    });
+
+    it('Accumulates every error with the semigroup.', () => {
+      const x = Result.validate(
+        { name: name(''), age: age(-1) },
+        Semigroup.array,
+      );
+      assert.deepEqual(x, Err(['name is empty', 'age is negative']));
+
+      const y: Result<[number, boolean], string> = Result.validate(
+        [
+          Err('e1') as Result<number, string>,
+          Err('e2') as Result<boolean, string>,
+        ],
+        Semigroup.string(', '),
+      );
+      assert.deepEqual(y, Err('e1, e2'));
+    });
+
+    it('Collects the errors into an array without a semigroup.', () => {
+      const a = Ok(1) as Result<number, string>;
+      const b = Err('e') as Result<string, string>;
+      const x: Result<[number, string], string[]> = Result.validate([a, b]);
+      assert.deepEqual(x, Err(['e']));
+
+      const y = Result.validate({ a, b: Ok('b') });
+      assert.deepEqual(y, Ok({ a: 1, b: 'b' }));
+    });
+
+    it('Accepts any object with concat.', () => {
+      const x = Result.validate([Err(1), Ok('a'), Err(2)], {
+        concat: (x: number, y: number) => x + y,
+      });
+      assert.deepEqual(x, Err(3));
+    });
+  });
+
+  describe('toPromise', () => {
+    it('Resolves to the Ok value.', async () => {
+      const x = Ok(2) as Result<number, string>;
+      const v: number = await x.toPromise();
+      assert.equal(v, 2);
+    });
+
+    it('Rejects with the Err value.', async () => {
+      await assert.rejects(Err('boom').toPromise(), (e) => e === 'boom');
+    });
+
+    it('Rejects with the converted Err value.', async () => {
+      await assert.rejects(
+        (Err('boom') as Result<number, string>).toPromise((e) => new Error(e)),
+        { message: 'boom' },
+      );
+    });
+
+    it('Rejects with the error thrown by mapErr.', async () => {
+      const x = Err('boom').toPromise(() => {
+        throw new Error('mapErr');
+      });
+      assert.ok(x instanceof Promise);
+      await assert.rejects(x, { message: 'mapErr' });
+    });
+
+    it('Is the inverse of fromPromise.', async () => {
+      assert.deepEqual(await Result.fromPromise(Ok(1).toPromise()), Ok(1));
+      assert.deepEqual(await Result.fromPromise(Err(1).toPromise()), Err(1));
+    });
+  });
 });
@@ -0,0 +1,158 @@
+import { Err, None, Ok, Result, Some } from '@schrosis/rus-ts';
+import {
+  anyErr,
+  anyNone,
+  anyOk,
+  anySome,
+  matchers,
+} from '@schrosis/rus-ts/testing';
+
+expect.extend(matchers);
+
+describe('testing', () => {
+  describe('toBeEqualTo', () => {
+    it('Passes if the received value equals the expected option or result.', () => {
+      expect(Some(2)).toBeEqualTo(Some(2));
+      expect(Some(NaN)).toBeEqualTo(Some(NaN));
+      expect(None).toBeEqualTo(None);
+      expect(Ok(Some(1))).toBeEqualTo(Ok(Some(1)));
+      expect(Err('e') as Result<number, string>).toBeEqualTo(Err('e'));
+
+      expect(Some(2)).not.toBeEqualTo(Some(3));
+      expect(Some(2)).not.toBeEqualTo(None);
+      expect(Ok(2)).not.toBeEqualTo(Err(2));
+      expect(Some(2)).not.toBeEqualTo(Ok(2));
+      expect(2).not.toBeEqualTo(Some(2));
+    });
+
+    it('Describes the values on failure.', () => {
+      expect(() => expect(Some(2)).toBeEqualTo(Some(3))).toThrow(
+        /to be equal to/,
+      );
+      expect(() => expect(None).not.toBeEqualTo(None)).toThrow(
+        /not to be equal to/,
+      );
+    });
+  });
+
+  describe('toBeSome', () => {
+    it('Passes if the received value is Some, containing the value if it is given.', () => {
+      expect(Some(2)).toBeSome();
+      expect(Some({ id: 1 })).toBeSome({ id: 1 });
+      expect(Some([1, 2])).toBeSome([1, expect.any(Number)]);
+      expect(Some(undefined)).toBeSome(undefined);
+
+      expect(None).not.toBeSome();
+      expect(Ok(2)).not.toBeSome();
+      expect(Some(2)).not.toBeSome(3);
+      expect(2).not.toBeSome();
+    });
+
+    it('Shows the variant and the diff of the contained values on failure.', () => {
+      expect(() => expect(None).toBeSome(1)).toThrow(
+        /Expected: Some\(1\)\nReceived: None/,
+      );
+      expect(() => expect(Some({ id: 1 })).toBeSome({ id: 2 })).toThrow(
+        /- Expected[\s\S]*"id": 2,[\s\S]*"id": 1,/,
+      );
+      expect(() => expect(Some(1)).not.toBeSome()).toThrow(
+        /Expected: not Some\nReceived: Some\(1\)/,
+      );
+    });
+  });
+
+  describe('toBeNone', () => {
+    it('Passes if the received value is None.', () => {
+      expect(None).toBeNone();
+      expect(Some(1)).not.toBeNone();
+      expect(undefined).not.toBeNone();
+      expect(() => expect(Some('a')).toBeNone()).toThrow(
+        /Expected: None\nReceived: Some\("a"\)/,
+      );
+    });
+  });
+
+  describe('toBeOk', () => {
+    it('Passes if the received value is Ok, containing the value if it is given.', () => {
+      expect(Ok(2)).toBeOk();
+      expect(Ok(Some(2))).toBeOk(Some(2));
+      expect(Err(2)).not.toBeOk();
+      expect(Ok(2)).not.toBeOk(3);
+      expect(() => expect(Err('e')).toBeOk(1)).toThrow(
+        /Expected: Ok\(1\)\nReceived: Err\("e"\)/,
+      );
+    });
+  });
+
+  describe('toBeErr', () => {
+    it('Passes if the received value is Err, containing the value if it is given.', () => {
+      expect(Err('e')).toBeErr();
+      expect(Err('e')).toBeErr('e');
+      expect(Ok('e')).not.toBeErr();
+      expect(Err('e')).not.toBeErr('f');
+    });
+  });
+
+  describe('toBeErrWith', () => {
+    it('Passes if the received value is Err and the predicate returns true for the error.', () => {
+      const x = Err(new Error('boom'));
+      expect(x).toBeErrWith((e: Error) => e.message === 'boom');
+      expect(x).not.toBeErrWith((e: Error) => e.message === 'bang');
+      expect(Ok(1)).not.toBeErrWith(() => true);
+      expect(() => expect(Ok(1)).toBeErrWith(() => true)).toThrow(
+        /Received: Ok\(1\)/,
+      );
+    });
+  });
+
+  describe('asymmetric matchers', () => {
+    it('Match options and results inside toEqual.', () => {
+      expect({ id: 1, name: Some('alice'), age: None }).toEqual({
+        id: 1,
+        name: anySome(),
+        age: anyNone(),
+      });
+      expect([Ok(1), Err({ code: 2 })]).toEqual([
+        anyOk(1),
+        anyErr({ code: expect.any(Number) }),
+      ]);
+      expect([Some(Some(1))]).toEqual([anySome(anySome(1))]);
+
+      expect({ name: None }).not.toEqual({ name: anySome() });
+      expect([Ok(1)]).not.toEqual([anyOk(2)]);
+      expect([Ok(1)]).not.toEqual([anyErr()]);
+    });
+
+    it('Compare dates, maps, sets and regular expressions by their contents.', () => {
+      expect(Some(new Date(0))).toEqual(anySome(new Date(0)));
+      expect(Some(new Date(99999))).not.toEqual(anySome(new Date(0)));
+      expect(Ok(new Map([[1, { a: 1 }]]))).toEqual(
+        anyOk(new Map([[1, { a: 1 }]])),
+      );
+      expect(Ok(new Map())).not.toEqual(anyOk(new Map([[1, 2]])));
+      expect(Ok(new Map([[1, 3]]))).not.toEqual(anyOk(new Map([[1, 2]])));
+      expect(Err(new Set([{ a: 1 }]))).toEqual(anyErr(new Set([{ a: 1 }])));
+      expect(Err(new Set([1]))).not.toEqual(anyErr(new Set([2])));
+      expect(Some(/a/g)).toEqual(anySome(/a/g));
+      expect(Some(/a/g)).not.toEqual(anySome(/a/i));
+      expect(Err(new Error('a'))).not.toEqual(anyErr(new Error('b')));
+      expect(Some(new (class A {})())).not.toEqual(anySome({}));
+
+      const cyclic: { self?: unknown } = {};
+      cyclic.self = cyclic;
+      expect(Some(cyclic)).toEqual(anySome(cyclic));
+    });
+
+    it('Print the expected value on failure.', () => {
+      expect(() =>
+        expect([Some({ id: 1 })]).toEqual([anySome({ id: 2 })]),
+      ).toThrow('AnySome({"id": 2})');
+      expect(() =>
+        expect([Ok(1)]).toEqual([anyOk(new Map([['a', Some(2)]]))]),
+      ).toThrow('AnyOk(Map {"a" => Some(2)})');
+      expect(() => expect([Ok(1)]).toEqual([anyOk(anySome(1))])).toThrow(
+        'AnyOk(AnySome(1))',
+      );
+    });
+  });
+});
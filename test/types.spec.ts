@@ -0,0 +1,115 @@
+import {
+  AsyncOption,
+  AsyncResult,
+  Err,
+  ErrType,
+  None,
+  Ok,
+  OkType,
+  Option,
+  OptionalKeys,
+  OptionalToOption,
+  RequiredKeys,
+  Result,
+  ResultifyFn,
+  Some,
+  SomeType,
+  UnwrapResult,
+} from '@schrosis/rus-ts';
+import assert from 'assert';
+import { Equal, expectType } from './helpers';
+
+describe('types', () => {
+  describe('OkType and ErrType', () => {
+    it('Extract the types of Result and AsyncResult.', () => {
+      expectType<Equal<OkType<Result<number, string>>, number>>();
+      expectType<Equal<ErrType<Result<number, string>>, string>>();
+      expectType<Equal<OkType<AsyncResult<number, string>>, number>>();
+      expectType<Equal<ErrType<AsyncResult<number, string>>, string>>();
+      expectType<Equal<OkType<Err<string>>, never>>();
+      expectType<Equal<ErrType<Ok<number>>, never>>();
+    });
+
+    it('Infer through the Mixin types returned by the methods.', () => {
+      const x = Ok(1).map(String) as Result<string, number>;
+      const y = x.andThen((s) => (s ? Ok([s]) : Err(new Error())));
+      expectType<Equal<OkType<typeof y>, string[]>>();
+      expectType<Equal<ErrType<typeof y>, number | Error>>();
+      const a = x.toAsync();
+      expectType<Equal<OkType<typeof a>, string>>();
+      expectType<Equal<ErrType<typeof a>, number>>();
+      assert.deepEqual(y, Ok(['1']));
+    });
+  });
+
+  describe('SomeType', () => {
+    it('Extracts the type of Option and AsyncOption.', () => {
+      const x = Some(1).map((n) => [n]) as Option<number[]>;
+      expectType<Equal<SomeType<typeof x>, number[]>>();
+      expectType<Equal<SomeType<AsyncOption<string>>, string>>();
+      expectType<Equal<SomeType<None>, never>>();
+      assert.deepEqual(x, Some([1]));
+    });
+  });
+
+  describe('UnwrapResult', () => {
+    it('Extracts the Result returned by a function.', () => {
+      type A = UnwrapResult<(id: number) => Result<string, Error>>;
+      type B = UnwrapResult<() => Promise<Result<string, Error>>>;
+      type C = UnwrapResult<() => AsyncResult<string, Error>>;
+      expectType<Equal<A, Result<string, Error>>>();
+      expectType<Equal<B, Result<string, Error>>>();
+      expectType<Equal<C, Result<string, Error>>>();
+      expectType<Equal<OkType<B>, string>>();
+    });
+  });
+
+  describe('ResultifyFn', () => {
+    it('Converts a throwing signature.', () => {
+      type A = ResultifyFn<(a: string, b?: number) => boolean, TypeError>;
+      type B = ResultifyFn<(url: string) => Promise<number>>;
+      expectType<
+        Equal<A, (a: string, b?: number) => Result<boolean, TypeError>>
+      >();
+      expectType<Equal<B, (url: string) => AsyncResult<number, unknown>>>();
+
+      const f: A = Result.fromThrowable(
+        (a: string, b?: number) => a.length === b,
+        (e) => e as TypeError,
+      );
+      assert.deepEqual(f('a', 1), Ok(true));
+    });
+  });
+
+  describe('OptionalKeys', () => {
+    type T = {
+      a: number;
+      b?: string;
+      c: boolean | undefined;
+      d?: null;
+      e?: number | null;
+    };
+
+    it('Picks the optional and the required keys.', () => {
+      expectType<Equal<OptionalKeys<T>, 'b' | 'd' | 'e'>>();
+      expectType<Equal<RequiredKeys<T>, 'a' | 'c'>>();
+    });
+
+    it('Maps the optional properties to Option.', () => {
+      expectType<
+        Equal<
+          OptionalToOption<T>,
+          {
+            a: number;
+            b: Option<string>;
+            c: boolean | undefined;
+            d: Option<never>;
+            e: Option<number>;
+          }
+        >
+      >();
+      const x: OptionalToOption<{ a: number; b?: string }> = { a: 1, b: None };
+      assert.deepEqual(x.b, None);
+    });
+  });
+});
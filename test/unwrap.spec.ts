@@ -0,0 +1,95 @@
+import { Err, None, Ok, Option, Result, Some } from '@schrosis/rus-ts';
+import {
+  expect as expectValue,
+  expectErr,
+  unwrap,
+  unwrapErr,
+  UnwrapError,
+} from '@schrosis/rus-ts/unwrap';
+import assert from 'assert';
+
+describe('unwrap', () => {
+  describe('unwrap', () => {
+    it('Returns the contained Some or Ok value.', () => {
+      const x: Option<string> = Some('air');
+      assert.equal(unwrap(x), 'air');
+
+      const y: Result<number, string> = Ok(2);
+      assert.equal(unwrap(y), 2);
+    });
+
+    it('Throws an UnwrapError if the value is None.', () => {
+      assert.throws(() => unwrap(None), {
+        name: 'UnwrapError',
+        message: 'called `Option::unwrap()` on a `None` value',
+        variant: 'None',
+      });
+    });
+
+    it('Throws an UnwrapError with the error as cause if the value is Err.', () => {
+      const cause = new TypeError('boom');
+      try {
+        unwrap(Err(cause));
+        assert.fail();
+      } catch (e) {
+        assert.ok(e instanceof UnwrapError);
+        assert.ok(e instanceof Error);
+        assert.equal(
+          e.message,
+          'called `Result::unwrap()` on an `Err` value: TypeError: boom',
+        );
+        assert.equal(e.variant, 'Err');
+        assert.equal(e.value, cause);
+        assert.equal(e.cause, cause);
+      }
+    });
+  });
+
+  describe('expect', () => {
+    it('Returns the contained Some or Ok value, or throws an UnwrapError with the message.', () => {
+      assert.equal(expectValue(Some('value'), 'fruits are healthy'), 'value');
+      assert.equal(expectValue(Ok(2), 'Testing expect'), 2);
+      assert.throws(() => expectValue(None, 'fruits are healthy'), {
+        message: 'fruits are healthy',
+        variant: 'None',
+      });
+      assert.throws(
+        () => expectValue(Err('emergency failure'), 'Testing expect'),
+        {
+          message: 'Testing expect: emergency failure',
+          variant: 'Err',
+          cause: 'emergency failure',
+        },
+      );
+    });
+  });
+
+  describe('unwrapErr', () => {
+    it('Returns the contained Err value, or throws an UnwrapError.', () => {
+      assert.equal(unwrapErr(Err('emergency failure')), 'emergency failure');
+      try {
+        unwrapErr(Ok(2));
+        assert.fail();
+      } catch (e) {
+        assert.ok(e instanceof UnwrapError);
+        assert.equal(
+          e.message,
+          'called `Result::unwrap_err()` on an `Ok` value: 2',
+        );
+        assert.equal(e.variant, 'Ok');
+        assert.equal(e.value, 2);
+        assert.equal(e.cause, undefined);
+      }
+    });
+  });
+
+  describe('expectErr', () => {
+    it('Returns the contained Err value, or throws an UnwrapError with the message.', () => {
+      assert.equal(expectErr(Err('e'), 'Testing expectErr'), 'e');
+      assert.throws(() => expectErr(Ok(10), 'Testing expectErr'), {
+        message: 'Testing expectErr: 10',
+        variant: 'Ok',
+      });
+    });
+  });
+});